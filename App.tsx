@@ -1,17 +1,59 @@
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { ImageFile, CropRect } from './types';
-import { UploadCloudIcon, ChevronDownIcon, PlayIcon, PauseIcon, RewindIcon, LoaderIcon } from './components/Icons';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { ImageFile, CropRect, AutoDetectOptions, CropOverrides, AlignmentOffsets, AlignmentOptions, SpriteSheetOptions, AnimationExportOptions, PlaybackSettings, OnionSkinSettings, MaskViewSettings, MaskBrushSettings, ImageMask, OutputFormat, OutputFormatOptions, ExportTrimOptions, BackgroundKeyOptions, BackgroundEstimate, ColorPickerTarget, DetectionResult, GridSliceOptions, CropPreset, ProjectFile, ProjectSettings, SavedCrop } from './types';
+import { UploadCloudIcon, ChevronDownIcon } from './components/Icons';
 import { CropEditor } from './components/CropEditor';
 import { Thumbnail } from './components/Thumbnail';
 import { Controls } from './components/Controls';
 import { CropPreviews } from './components/CropPreviews';
+import { SpriteSheetPreview } from './components/SpriteSheetPreview';
+import { OnionSkinControls } from './components/OnionSkinControls';
+import { ExportResults } from './components/ExportResults';
+import { MaskControls } from './components/MaskControls';
+import { ProposedCropsBar } from './components/ProposedCropsBar';
+import { DetectionFrameSummary } from './components/DetectionFrameSummary';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProjectControls } from './components/ProjectControls';
+import { SessionRestorePrompt } from './components/SessionRestorePrompt';
+import { layoutSpriteSheet, drawSpriteSheet, buildAtlasDescriptor } from './utils/spriteSheet';
+import { canvasToBlob, downloadBlob, getBaseName, claimUniquePath } from './utils/image';
+import { encodeAnimation, ANIMATION_FILE_TYPES } from './utils/animationExport';
+import { buildTimeline, DEFAULT_PLAYBACK } from './utils/playback';
+import { resolveCrop, createCropOverride, setCropOverride, getCropOverride, hasCropOverrides, pruneCropOverrides, getAlignedCrop, duplicateCrop, mirrorCrop, moveCrop } from './utils/crops';
+import { getCropOutputs, computeOutputGeometry } from './utils/render';
+import { DEFAULT_FORMAT_OPTIONS, detectSupportedFormats, resolveOutputFormat, encodeCanvas } from './utils/formats';
+import { planExport, getCropName, formatErrorReport, buildTrimManifest, TRIM_MANIFEST_NAME, DEFAULT_FILENAME_TEMPLATE, type ExportReport } from './utils/exportPlan';
+import { runInImagePool, createProgressTracker, getImagePoolSize, isAbortError } from './utils/workerPool';
+import { BatchJob } from './utils/batchJob';
+import { loadImageFile, createImageMask, releaseImages, PREVIEW_SIZE } from './utils/imageStore';
+import { DEFAULT_BG_KEY_OPTIONS, getDespillSettings } from './utils/backgroundRemoval';
+import { combineEstimates, LOW_CONFIDENCE } from './utils/backgroundEstimation';
+import { DEFAULT_MASK_BRUSH } from './utils/maskEditing';
+import { DEFAULT_AUTO_DETECT_OPTIONS } from './utils/detection';
+import { combineFrameDetections } from './utils/detectionTracking';
+import { DEFAULT_GRID_OPTIONS, computeGridCells } from './utils/gridSlicing';
+import { createHistory, recordCommand, undo, redo, getHistoryStates, type History } from './utils/history';
+import { createProjectFile, parseProjectFile, restoreSavedCrops, toSavedCrops } from './utils/project';
+import { loadCropPresets, saveCropPresets } from './utils/cropPresets';
+import { saveSession, getSavedSession, restoreSession, clearSession, getStorageUsage, type SessionState, type StorageUsage } from './utils/sessionStore';
 
 // This is to inform TypeScript about the JSZip library loaded from the CDN
 declare const JSZip: any;
 
-const WelcomeScreen: React.FC<{ onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ onFileChange }) => (
+// What produced the crops being previewed.
+type CropProposalSource = 'detection' | 'grid';
+
+// The part of the editor state that undo/redo covers.
+interface EditorSnapshot {
+    images: ImageFile[];
+    crops: CropRect[];
+    cropOverrides: CropOverrides;
+    alignmentOffsets: AlignmentOffsets;
+    selectedCropId: string | null;
+}
+
+const WelcomeScreen: React.FC<{ onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void; children?: React.ReactNode }> = ({ onFileChange, children }) => (
     <div className="flex flex-col items-center justify-center h-full text-center p-8">
         <div className="max-w-md">
             <h1 className="text-4xl font-bold text-sky-400 mb-4">Bulk Image Cropper</h1>
@@ -23,345 +65,70 @@ const WelcomeScreen: React.FC<{ onFileChange: (e: React.ChangeEvent<HTMLInputEle
                 <span>Select Images</span>
                 <input type="file" multiple accept="image/*" className="hidden" onChange={onFileChange} />
             </label>
+            {children}
         </div>
     </div>
 );
 
-interface SpriteSheetPreviewProps {
-    images: ImageFile[];
-    crop: CropRect | null;
-    animationState: { isPlaying: boolean; isReversed: boolean; };
-    onTogglePlay: () => void;
-    onToggleReverse: () => void;
-}
-
-const SpriteSheetPreview: React.FC<SpriteSheetPreviewProps> = ({ images, crop, animationState, onTogglePlay, onToggleReverse }) => {
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [imageElements, setImageElements] = useState<HTMLImageElement[]>([]);
-
-    useEffect(() => {
-        if (!images.length || !crop) {
-            setIsLoading(false);
-            return;
-        }
-        let isCancelled = false;
-        setIsLoading(true);
-
-        Promise.all(images.map(imgFile => new Promise<HTMLImageElement>((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = "anonymous";
-            img.onload = () => resolve(img);
-            img.onerror = reject;
-            img.src = imgFile.url;
-        }))).then(loadedImages => {
-            if (!isCancelled) {
-                setImageElements(loadedImages);
-                setIsLoading(false);
-            }
-        }).catch(error => {
-            console.error("Failed to load images for animation:", error);
-            if (!isCancelled) setIsLoading(false);
-        });
-
-        return () => { isCancelled = true; };
-    }, [images]);
-
-    useEffect(() => {
-        if (isLoading || !crop || imageElements.length === 0) return;
-
-        const canvas = canvasRef.current;
-        const ctx = canvas?.getContext('2d');
-        if (!canvas || !ctx) return;
-
-        canvas.width = crop.width;
-        canvas.height = crop.height;
-
-        let frame = 0;
-        let lastTime = 0;
-        let animationFrameId: number;
-        const fps = 10;
-        const frameInterval = 1000 / fps;
-
-        const render = (timestamp: number) => {
-            if (!lastTime) lastTime = timestamp;
-            const deltaTime = timestamp - lastTime;
-            
-            if (animationState.isPlaying && deltaTime > frameInterval) {
-                lastTime = timestamp - (deltaTime % frameInterval);
-
-                if (animationState.isReversed) {
-                    frame = (frame - 1 + imageElements.length) % imageElements.length;
-                } else {
-                    frame = (frame + 1) % imageElements.length;
-                }
-
-                const currentImage = imageElements[frame];
-                if (currentImage) {
-                    ctx.clearRect(0, 0, canvas.width, canvas.height);
-                    ctx.drawImage(
-                        currentImage,
-                        Math.round(crop.x), Math.round(crop.y), Math.round(crop.width), Math.round(crop.height),
-                        0, 0, canvas.width, canvas.height
-                    );
-                }
-            }
-            animationFrameId = requestAnimationFrame(render);
-        };
-        
-        // Initial draw
-        const initialImage = imageElements[0];
-        if (initialImage) {
-             ctx.drawImage(
-                initialImage,
-                Math.round(crop.x), Math.round(crop.y), Math.round(crop.width), Math.round(crop.height),
-                0, 0, canvas.width, canvas.height
-            );
-        }
-
-        render(0);
-        
-        return () => {
-            cancelAnimationFrame(animationFrameId);
-        };
-
-    }, [imageElements, crop, animationState, isLoading]);
-
-
-    const containerStyle: React.CSSProperties = {
-        width: '100%',
-        maxWidth: '600px',
-        aspectRatio: (crop?.width && crop?.height) ? `${crop.width} / ${crop.height}` : '16/9',
-        position: 'relative',
-    };
-
-    return (
-        <div className="bg-gray-800/50 backdrop-blur-sm p-4 rounded-lg border border-gray-700 w-full flex flex-col items-center gap-4">
-            <div className="bg-gray-900 overflow-hidden rounded-md w-full" style={containerStyle}>
-                {(isLoading || !crop) ? (
-                    <div className="w-full h-full flex items-center justify-center absolute inset-0">
-                        <LoaderIcon className="w-8 h-8 animate-spin" />
-                    </div>
-                ) : (
-                    <canvas ref={canvasRef} className="w-full h-full object-contain" />
-                )}
-            </div>
-            <div className="flex items-center gap-4">
-                <button onClick={onTogglePlay} className="bg-gray-700 hover:bg-gray-600 text-white rounded-full p-3 transition-colors disabled:opacity-50" aria-label={animationState.isPlaying ? 'Pause' : 'Play'} disabled={isLoading || !crop} >
-                    {animationState.isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
-                </button>
-                <button onClick={onToggleReverse} className={`p-3 rounded-full transition-colors disabled:opacity-50 ${animationState.isReversed ? 'bg-sky-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'}`} aria-label="Reverse" disabled={isLoading || !crop} >
-                    <RewindIcon className="w-6 h-6" />
-                </button>
-            </div>
-        </div>
-    );
-};
-
-
-async function detectObjectsFromImage(imageFile: ImageFile, options: { mode: 'transparent' | 'color', color: string }): Promise<Omit<CropRect, 'id'>[]> {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    await new Promise((resolve, reject) => { img.onload = resolve; img.onerror = reject; img.src = imageFile.url; });
-
-    const canvas = document.createElement('canvas');
-    const { width, height } = imageFile;
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return [];
-    ctx.drawImage(img, 0, 0, width, height);
-
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
-
-    const hexToRgb = (hex: string) => {
-        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-        return result ? { r: parseInt(result[1], 16), g: parseInt(result[2], 16), b: parseInt(result[3], 16) } : null;
-    };
-    const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) =>
-        Math.sqrt(Math.pow(r1 - r2, 2) + Math.pow(g1 - g2, 2) + Math.pow(b1 - b2, 2));
-
-    const bgColorRgb = options.mode === 'color' ? hexToRgb(options.color) : null;
-    const COLOR_THRESHOLD = 35;
-    const ALPHA_THRESHOLD = 10;
-
-    const isBackground = (index: number) => {
-        if (options.mode === 'transparent') {
-            return data[index + 3] < ALPHA_THRESHOLD;
-        }
-        if (bgColorRgb) {
-            const r = data[index];
-            const g = data[index + 1];
-            const b = data[index + 2];
-            return colorDistance(r, g, b, bgColorRgb.r, bgColorRgb.g, bgColorRgb.b) < COLOR_THRESHOLD;
-        }
-        return false;
-    };
-    
-    const visited = new Uint8Array(width * height);
-    const boundingBoxes = [];
-    
-    for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-            const i = (y * width + x);
-            if (visited[i]) continue;
-            
-            const pixelIndex = i * 4;
-            if (isBackground(pixelIndex)) {
-                visited[i] = 1;
-                continue;
-            }
-            
-            let minX = x, minY = y, maxX = x, maxY = y;
-            const queue: [number, number][] = [[x, y]];
-            visited[i] = 1;
-            
-            let head = 0;
-            while(head < queue.length) {
-                const [cx, cy] = queue[head++];
-                
-                minX = Math.min(minX, cx);
-                minY = Math.min(minY, cy);
-                maxX = Math.max(maxX, cx);
-                maxY = Math.max(maxY, cy);
-                
-                for (const [dx, dy] of [[0,1], [0,-1], [1,0], [-1,0]]) {
-                    const nx = cx + dx;
-                    const ny = cy + dy;
-                    
-                    if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                        const ni = ny * width + nx;
-                        if (!visited[ni] && !isBackground(ni * 4)) {
-                            visited[ni] = 1;
-                            queue.push([nx, ny]);
-                        }
-                    }
-                }
-            }
-            if (maxX - minX > 5 && maxY - minY > 5) {
-               boundingBoxes.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 });
-            }
-        }
-    }
-    
-    return boundingBoxes;
-}
-
-async function removeImageBackground(imageFile: ImageFile, hexColor: string, feather: number): Promise<ImageFile> {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    await new Promise((resolve, reject) => { img.onload = resolve; img.onerror = reject; img.src = imageFile.url; });
-
-    const canvas = document.createElement('canvas');
-    const { width, height } = imageFile;
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return imageFile;
-    ctx.drawImage(img, 0, 0, width, height);
-
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const originalData = new Uint8ClampedArray(imageData.data); // For Pass 2 color checks
-    const data = imageData.data;
-
-    const hexToRgb = (hex: string) => {
-        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-        return result ? { r: parseInt(result[1], 16), g: parseInt(result[2], 16), b: parseInt(result[3], 16) } : null;
-    };
-    const targetRgb = hexToRgb(hexColor);
-    if (!targetRgb) return imageFile;
-    
-    const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) =>
-        Math.sqrt(Math.pow(r1 - r2, 2) + Math.pow(g1 - g2, 2) + Math.pow(b1 - b2, 2));
-
-    // --- Pass 1: Flood-fill removal ---
-    const COLOR_THRESHOLD = 20;
-    const colorMatch = (r: number, g: number, b: number) => {
-        return colorDistance(r, g, b, targetRgb.r, targetRgb.g, targetRgb.b) < COLOR_THRESHOLD;
-    };
-    
-    const queue: [number, number][] = [];
-    const visited = new Uint8Array(width * height);
-    const addToQueue = (x: number, y: number) => {
-        const i = y * width + x;
-        if (visited[i]) return;
-        const pixelIndex = i * 4;
-        if (colorMatch(data[pixelIndex], data[pixelIndex + 1], data[pixelIndex + 2])) {
-            queue.push([x, y]);
-            visited[i] = 1;
-        }
-    };
-
-    for (let x = 0; x < width; x++) { addToQueue(x, 0); addToQueue(x, height - 1); }
-    for (let y = 1; y < height - 1; y++) { addToQueue(0, y); addToQueue(width - 1, y); }
-
-    let head = 0;
-    while(head < queue.length) {
-        const [x, y] = queue[head++];
-        const i = (y * width + x) * 4;
-        data[i + 3] = 0; // Make transparent
-        for (const [dx, dy] of [[0,1], [0,-1], [1,0], [-1,0]]) {
-            const nx = x + dx;
-            const ny = y + dy;
-            if (nx >= 0 && nx < width && ny >= 0 && ny < height) { addToQueue(nx, ny); }
-        }
-    }
-
-    // --- Pass 2: Edge Feathering ---
-    if (feather > 0) {
-        const postFloodFillData = new Uint8ClampedArray(data);
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const i = (y * width + x);
-                const pixelIndex = i * 4;
-
-                if (postFloodFillData[pixelIndex + 3] > 0) { // Is opaque
-                    let isEdge = false;
-                    for (const [dx, dy] of [[0,1], [0,-1], [1,0], [-1,0]]) {
-                        const nx = x + dx;
-                        const ny = y + dy;
-                        if (nx >= 0 && nx < width && ny >= 0 && ny < height && postFloodFillData[((ny * width + nx) * 4) + 3] === 0) {
-                            isEdge = true;
-                            break;
-                        }
-                    }
-                    if (isEdge) {
-                        const r = originalData[pixelIndex];
-                        const g = originalData[pixelIndex + 1];
-                        const b = originalData[pixelIndex + 2];
-                        const distance = colorDistance(r, g, b, targetRgb.r, targetRgb.g, targetRgb.b);
-                        if (distance < feather) {
-                            const originalAlpha = originalData[pixelIndex + 3];
-                            data[pixelIndex + 3] = originalAlpha * (distance / feather);
-                        }
-                    }
-                }
-            }
-        }
-    }
-
-    ctx.putImageData(imageData, 0, 0);
-    return { ...imageFile, url: canvas.toDataURL() };
-}
-
 const App: React.FC = () => {
     const [images, setImages] = useState<ImageFile[]>([]);
     const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
     const [crops, setCrops] = useState<CropRect[]>([]);
     const [selectedCropId, setSelectedCropId] = useState<string | null>(null);
+    const [cropOverrides, setCropOverrides] = useState<CropOverrides>({});
+    const [isEditingImageOnly, setIsEditingImageOnly] = useState(false);
+    const [alignmentOffsets, setAlignmentOffsets] = useState<AlignmentOffsets>({});
+    const [alignmentOptions, setAlignmentOptions] = useState<AlignmentOptions>({ method: 'phase', referenceImageId: null, maxShift: 64 });
+    const [alignmentProgress, setAlignmentProgress] = useState<{ processed: number; total: number } | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+    // Set while a cancellable batch runs in the worker pool.
+    const [activeJob, setActiveJob] = useState<BatchJob | null>(null);
+    const [isJobPaused, setIsJobPaused] = useState(false);
+    const [exportReport, setExportReport] = useState<ExportReport | null>(null);
     const [isAutoCropping, setIsAutoCropping] = useState(false);
     const [isRemovingBackground, setIsRemovingBackground] = useState(false);
+    const [isEstimatingBackground, setIsEstimatingBackground] = useState(false);
+    const [backgroundEstimates, setBackgroundEstimates] = useState<Record<string, BackgroundEstimate>>({});
     const [showScrollButton, setShowScrollButton] = useState(false);
-    const [animationState, setAnimationState] = useState({ isPlaying: true, isReversed: false });
-    const [colorPickerTarget, setColorPickerTarget] = useState<'autoDetect' | 'bgRemove' | null>(null);
-    const [autoDetectOptions, setAutoDetectOptions] = useState({ mode: 'transparent' as 'transparent' | 'color', color: '#ffffff' });
-    const [bgRemoveColor, setBgRemoveColor] = useState('#ffffff');
-    const [bgRemoveFeather, setBgRemoveFeather] = useState(25);
+    const [isPlaying, setIsPlaying] = useState(true);
+    const [playback, setPlayback] = useState<PlaybackSettings>(DEFAULT_PLAYBACK);
+    const [colorPickerTarget, setColorPickerTarget] = useState<ColorPickerTarget | null>(null);
+    const [autoDetectOptions, setAutoDetectOptions] = useState<AutoDetectOptions>(DEFAULT_AUTO_DETECT_OPTIONS);
+    const [gridOptions, setGridOptions] = useState<GridSliceOptions>(DEFAULT_GRID_OPTIONS);
+    const [isSlicingGrid, setIsSlicingGrid] = useState(false);
+    // Crops found by detection or grid slicing, previewed over the image until they are applied or discarded.
+    const [cropProposal, setCropProposal] = useState<{ source: CropProposalSource; result: DetectionResult } | null>(null);
+    const [isUpdatingProposal, setIsUpdatingProposal] = useState(false);
+    // Image and options the previewed crops were made with.
+    const proposalSourceRef = useRef<{ source: CropProposalSource; imageId: string; detectOptions: AutoDetectOptions; gridOptions: GridSliceOptions } | null>(null);
+    const [bgKeyOptions, setBgKeyOptions] = useState<BackgroundKeyOptions>(DEFAULT_BG_KEY_OPTIONS);
+    const [animationExportOptions, setAnimationExportOptions] = useState<AnimationExportOptions>({ format: 'gif', loopCount: 0, dither: true, quality: 0.9 });
+    const [isExportingAnimation, setIsExportingAnimation] = useState(false);
+    const [maskView, setMaskView] = useState<MaskViewSettings>({ enabled: true, split: 0 });
+    const [isEditingMask, setIsEditingMask] = useState(false);
+    const [maskBrush, setMaskBrush] = useState<MaskBrushSettings>(DEFAULT_MASK_BRUSH);
+    const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>({ enabled: false, framesBefore: 1, framesAfter: 1, beforeOpacity: 0.4, afterOpacity: 0.4, beforeTint: '#ff3b3b', afterTint: '#3bff6b' });
+    const [spriteSheetOptions, setSpriteSheetOptions] = useState<SpriteSheetOptions>({ layout: 'grid', columns: 0, padding: 2, extrude: 0, atlasFormat: 'hash' });
+    const [outputFormatOptions, setOutputFormatOptions] = useState<OutputFormatOptions>(DEFAULT_FORMAT_OPTIONS);
+    const [exportTrim, setExportTrim] = useState<ExportTrimOptions>({ enabled: false, padding: 0 });
+    const [supportedFormats, setSupportedFormats] = useState<OutputFormat[]>(['png']);
+    const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+    const [cropPresets, setCropPresets] = useState<CropPreset[]>(loadCropPresets);
+    // Autosaved session from an earlier visit, offered on the welcome screen.
+    const [savedSession, setSavedSession] = useState<SessionState | null>(null);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    const [isRestoringSession, setIsRestoringSession] = useState(false);
     const thumbnailsRef = useRef<HTMLElement>(null);
 
+    const [history, setHistory] = useState<History<EditorSnapshot>>(createHistory);
+    // Latest editor state, so commands recorded from memoized or async handlers capture what they replace.
+    const snapshotRef = useRef<EditorSnapshot>({ images, crops, cropOverrides, alignmentOffsets, selectedCropId });
+    snapshotRef.current = { images, crops, cropOverrides, alignmentOffsets, selectedCropId };
+
+    const mainImage = images.find(img => img.id === selectedImageId) || images[0];
+    const selectedCrop = crops.find(c => c.id === selectedCropId) || null;
+
     const numericSort = (a: ImageFile, b: ImageFile) => {
         const regex = /(\d+)(?!.*\d)/;
         const nameA = a.name.split('.').slice(0, -1).join('.');
@@ -378,20 +145,24 @@ const App: React.FC = () => {
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (!e.target.files) return;
-        const files = Array.from(e.target.files);
-        Promise.all(files.map(file => new Promise<ImageFile>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const img = new Image();
-                img.onload = () => resolve({ id: `${file.name}-${Date.now()}`, name: file.name, url: event.target?.result as string, width: img.width, height: img.height });
-                img.onerror = reject;
-                img.src = event.target?.result as string;
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(file);
-        }))).then(imageData => {
+        const files = Array.from<File>(e.target.files);
+        if (savedSession && !confirm("Start a new session with these images? The saved session will be replaced by it.")) {
+            // Cleared so picking the same files again still fires a change.
+            e.target.value = '';
+            return;
+        }
+        Promise.all(files.map(loadImageFile)).then(imageData => {
             imageData.sort(numericSort);
             setImages(imageData);
+            // Confirmed above, or only found while these were loading.
+            setSavedSession(null);
+            // A new set of images starts a new session; the old steps refer to images that are gone.
+            setHistory(createHistory());
+            setCropOverrides({});
+            setAlignmentOffsets({});
+            setExportReport(null);
+            setCropProposal(null);
+            setBackgroundEstimates({});
             if (imageData.length > 0) {
                 const firstImage = imageData[0];
                 setSelectedImageId(firstImage.id);
@@ -413,9 +184,146 @@ const App: React.FC = () => {
         }).catch(console.error);
     };
 
-    const handleCropChange = useCallback((updatedCrop: CropRect) => {
-        setCrops(prev => prev.map(c => c.id === updatedCrop.id ? updatedCrop : c));
+    const resolveCropForImage = useCallback((crop: CropRect, image: ImageFile) => resolveCrop(crop, image, cropOverrides, alignmentOffsets), [cropOverrides, alignmentOffsets]);
+
+    useEffect(() => {
+        setCropOverrides(prev => pruneCropOverrides(prev, images, crops));
+    }, [images, crops]);
+
+    // Free the object URLs of images that were replaced or removed. Images the history can bring
+    // back stay alive until their steps drop out of it.
+    const previousImagesRef = useRef<ImageFile[]>([]);
+    useEffect(() => {
+        const referenced = [images, ...getHistoryStates(history).map((snapshot: EditorSnapshot) => snapshot.images)].flat();
+        releaseImages(previousImagesRef.current, referenced);
+        previousImagesRef.current = referenced;
+    }, [images, history]);
+
+    // Call right before changing the editor state; `mergeKey` folds rapid repeats (e.g. a drag) into one step.
+    const recordHistory = useCallback((label: string, mergeKey: string | null = null) => {
+        setHistory(prev => recordCommand(prev, label, snapshotRef.current, mergeKey));
     }, []);
+
+    const restoreSnapshot = (snapshot: EditorSnapshot) => {
+        setImages(snapshot.images);
+        setCrops(snapshot.crops);
+        setCropOverrides(snapshot.cropOverrides);
+        setAlignmentOffsets(snapshot.alignmentOffsets);
+        setSelectedCropId(snapshot.selectedCropId);
+    };
+
+    const handleUndo = (steps = 1) => {
+        // A running batch would write its results over the restored state.
+        if (activeJob) return;
+        const result = undo(history, snapshotRef.current, steps);
+        if (!result) return;
+        setHistory(result.history);
+        restoreSnapshot(result.state);
+    };
+
+    const handleRedo = (steps = 1) => {
+        if (activeJob) return;
+        const result = redo(history, snapshotRef.current, steps);
+        if (!result) return;
+        setHistory(result.history);
+        restoreSnapshot(result.state);
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            // Text fields keep their own undo.
+            const target = e.target as HTMLElement;
+            if (target.isContentEditable || target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && ['text', 'number', 'search'].includes(target.type))) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) handleRedo();
+                else handleUndo();
+            } else if (key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const handleCropChange = useCallback((updatedCrop: CropRect) => {
+        if (!mainImage) return;
+        recordHistory(isEditingImageOnly ? 'Adjust crop on this image' : 'Adjust crop', `${isEditingImageOnly ? mainImage.id : '*'}:${updatedCrop.id}`);
+        if (isEditingImageOnly) {
+            const globalCrop = crops.find(c => c.id === updatedCrop.id);
+            if (!globalCrop) return;
+            const alignedCrop = getAlignedCrop(globalCrop, mainImage.id, alignmentOffsets);
+            setCropOverrides(prev => setCropOverride(prev, mainImage.id, globalCrop.id, createCropOverride(alignedCrop, updatedCrop)));
+            // Everything but the geometry (constraints, outputs, ...) always belongs to the global crop.
+            const { x, y, width, height, ...settings } = updatedCrop;
+            setCrops(prev => prev.map(c => c.id === globalCrop.id ? { ...c, ...settings } : c));
+            return;
+        }
+        // Crops are edited as resolved for the current image, so carry the same change over to the global crop.
+        setCrops(prev => prev.map(c => {
+            if (c.id !== updatedCrop.id) return c;
+            const resolved = resolveCrop(c, mainImage, cropOverrides, alignmentOffsets);
+            return {
+                ...updatedCrop,
+                x: c.x + updatedCrop.x - resolved.x,
+                y: c.y + updatedCrop.y - resolved.y,
+                width: c.width + updatedCrop.width - resolved.width,
+                height: c.height + updatedCrop.height - resolved.height,
+            };
+        }));
+    }, [mainImage, isEditingImageOnly, crops, cropOverrides, alignmentOffsets, recordHistory]);
+
+    const handleAlignFrames = async () => {
+        const reference = images.find(img => img.id === alignmentOptions.referenceImageId) || mainImage;
+        if (!reference || images.length < 2) return;
+        const job = beginJob();
+        const trackProgress = createProgressTracker(images.map(() => 1), (processed, total) => {
+            setAlignmentProgress({ processed: Math.floor(processed), total });
+            setProgress({ processed, total });
+        });
+        try {
+            const frameOffsets = await Promise.all(images.map((image: ImageFile, i) => image.id === reference.id
+                ? { dx: 0, dy: 0 }
+                : runInImagePool(
+                    { type: 'align', url: image.url, referenceUrl: reference.url, options: alignmentOptions },
+                    { signal: job.signal, onProgress: fraction => trackProgress(i, fraction) }
+                )));
+            recordHistory('Align frames');
+            setAlignmentOffsets(Object.fromEntries(images.map((image: ImageFile, i) => [image.id, frameOffsets[i]])));
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error("Frame alignment failed:", error);
+                alert("Could not align the frames.");
+            }
+        } finally {
+            setAlignmentProgress(null);
+            endJob(job);
+        }
+    };
+
+    const handleClearAlignment = () => {
+        recordHistory('Clear alignment');
+        setAlignmentOffsets({});
+    };
+
+    const handleResetCropOverride = () => {
+        if (!mainImage || !selectedCropId) return;
+        recordHistory('Reset crop on this image');
+        setCropOverrides(prev => setCropOverride(prev, mainImage.id, selectedCropId, null));
+    };
+
+    const handleResetImageOverrides = () => {
+        if (!mainImage) return;
+        recordHistory('Reset crops on this image');
+        setCropOverrides(prev => {
+            const next = { ...prev };
+            delete next[mainImage.id];
+            return next;
+        });
+    };
     
     const handleSelectCrop = useCallback((id: string | null) => {
         setSelectedCropId(id);
@@ -432,143 +340,625 @@ const App: React.FC = () => {
             width: size,
             height: size,
         };
+        recordHistory('Add crop');
         setCrops(prev => [...prev, newCrop]);
         setSelectedCropId(newCrop.id);
     };
 
     const handleDeleteCrop = () => {
         if (!selectedCropId) return;
-        setCrops(prev => {
-            const newCrops = prev.filter(c => c.id !== selectedCropId);
-            const newSelectedId = newCrops.length > 0 ? newCrops[0].id : null;
-            setSelectedCropId(newSelectedId);
-            return newCrops;
-        });
+        recordHistory('Delete crop');
+        const remaining = crops.filter(c => c.id !== selectedCropId);
+        setCrops(remaining);
+        // Dropped in the same step so undoing the delete brings the crop's per-image edits back too.
+        setCropOverrides(prev => pruneCropOverrides(prev, images, remaining));
+        setSelectedCropId(remaining.length > 0 ? remaining[0].id : null);
     };
 
-    const handleAutoDetectObjects = async () => {
-        const imageToCrop = images.find(img => img.id === selectedImageId) || images[0];
-        if (!imageToCrop) return;
+    // Name, label, lock and visibility changes; they belong to the global crop even when editing one image only.
+    const handleUpdateCrop = (id: string, changes: Partial<CropRect>, label: string, mergeKey?: string) => {
+        recordHistory(label, mergeKey ?? null);
+        setCrops(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+    };
+
+    const addCropCopy = (label: string, makeCopy: (crop: CropRect, name: string) => CropRect) => {
+        const index = crops.findIndex(c => c.id === selectedCropId);
+        if (index < 0 || !mainImage) return;
+        const copy = makeCopy(crops[index], getCropName(crops[index], index));
+        recordHistory(label);
+        setCrops(prev => [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)]);
+        setSelectedCropId(copy.id);
+    };
+
+    const handleDuplicateCrop = () => addCropCopy('Duplicate crop', (crop, name) => duplicateCrop(crop, name, mainImage));
+
+    const handleMirrorCrop = (axis: 'horizontal' | 'vertical') => addCropCopy('Mirror crop', (crop, name) => mirrorCrop(crop, name, mainImage, axis));
+
+    const handleReorderCrops = (from: number, to: number) => {
+        if (from === to) return;
+        recordHistory('Reorder crops');
+        setCrops(prev => moveCrop(prev, from, to));
+    };
+
+    const beginJob = () => {
+        const job = new BatchJob(status => setIsJobPaused(status === 'paused'));
+        setActiveJob(job);
+        return job;
+    };
 
-        setIsAutoCropping(true);
-        await new Promise(resolve => setTimeout(resolve, 50)); // Allow UI to update
+    const endJob = (job: BatchJob) => {
+        job.dispose();
+        setActiveJob(null);
+        setIsJobPaused(false);
+        setProgress(null);
+    };
+
+    const handleCancelJob = () => activeJob?.cancel();
+
+    const handleTogglePauseJob = () => {
+        if (!activeJob) return;
+        if (activeJob.isPaused) activeJob.resume();
+        else activeJob.pause();
+    };
+
+    // Detects objects on `image`, or on every image for the multi-frame modes, as proposed crops.
+    const detectCrops = useCallback(async (options: AutoDetectOptions, image: ImageFile, signal: AbortSignal, onProgress?: (processed: number, total: number) => void): Promise<DetectionResult> => {
+        const targets = options.frames === 'current' ? [image] : images;
+        const trackProgress = createProgressTracker(targets.map(() => 1), (processed, total) => onProgress?.(processed, total));
+        const frames = await Promise.all(targets.map((target: ImageFile, i) => runInImagePool(
+            { type: 'detect', url: target.url, maskUrl: target.mask?.url, options },
+            { signal, onProgress: fraction => trackProgress(i, fraction) }
+        )));
+        if (options.frames === 'current') {
+            return { crops: frames[0].map(obj => ({ id: `crop-${Date.now()}-${Math.random()}`, ...obj })), overrides: {}, frames: null };
+        }
+        return combineFrameDetections(images, frames, options.frames, images.indexOf(image), alignmentOffsets);
+    }, [images, alignmentOffsets]);
+
+    // Cuts `image` into grid cells as proposed crops, leaving out the empty ones if asked to.
+    const sliceGrid = useCallback(async (grid: GridSliceOptions, detectOptions: AutoDetectOptions, image: ImageFile, signal: AbortSignal, onProgress?: (processed: number, total: number) => void): Promise<DetectionResult> => {
+        const cells = grid.skipEmpty
+            ? await runInImagePool(
+                { type: 'sliceGrid', url: image.url, maskUrl: image.mask?.url, grid, options: detectOptions },
+                { signal, onProgress: fraction => onProgress?.(fraction, 1) }
+            )
+            : computeGridCells(image.width, image.height, grid);
+        return { crops: cells.map((cell, i) => ({ id: `crop-${Date.now()}-${i}`, ...cell })), overrides: {}, frames: null };
+    }, []);
+
+    const proposeCrops = useCallback((source: CropProposalSource, image: ImageFile, detectOptions: AutoDetectOptions, grid: GridSliceOptions, signal: AbortSignal, onProgress?: (processed: number, total: number) => void) => (
+        source === 'detection' ? detectCrops(detectOptions, image, signal, onProgress) : sliceGrid(grid, detectOptions, image, signal, onProgress)
+    ), [detectCrops, sliceGrid]);
+
+    const runCropProposal = async (source: CropProposalSource, grid: GridSliceOptions) => {
+        const image = images.find(img => img.id === selectedImageId) || images[0];
+        if (!image) return;
+
+        const setIsRunning = source === 'detection' ? setIsAutoCropping : setIsSlicingGrid;
+        setIsRunning(true);
+        const job = beginJob();
 
         try {
-            const detectedCrops = await detectObjectsFromImage(imageToCrop, autoDetectOptions);
-            if (detectedCrops.length > 0) {
-                const newCrops = detectedCrops.map(obj => ({ id: `crop-${Date.now()}-${Math.random()}`, ...obj }));
-                setCrops(newCrops);
-                setSelectedCropId(newCrops[0]?.id || null);
-            } else {
-                alert("No objects were detected. You can add a crop area manually.");
-                setCrops([]); setSelectedCropId(null);
+            const result = await proposeCrops(source, image, autoDetectOptions, grid, job.signal, (processed, total) => setProgress({ processed, total }));
+            proposalSourceRef.current = { source, imageId: image.id, detectOptions: autoDetectOptions, gridOptions: grid };
+            setCropProposal({ source, result });
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error(source === 'detection' ? "Auto-detect failed:" : "Grid slicing failed:", error);
+                alert(source === 'detection'
+                    ? "Could not auto-detect objects. Please try again or add crops manually."
+                    : "Could not slice the image into a grid. Please try again.");
             }
+        } finally {
+            setIsRunning(false);
+            endJob(job);
+        }
+    };
+
+    const handleAutoDetectObjects = () => runCropProposal('detection', gridOptions);
+
+    const handleSliceGrid = () => runCropProposal('grid', gridOptions);
+
+    // Reads the grid off the current image, then previews it.
+    const handleGuessGrid = async () => {
+        const image = images.find(img => img.id === selectedImageId) || images[0];
+        if (!image) return;
+
+        setIsSlicingGrid(true);
+        let guess: Partial<GridSliceOptions> | null = null;
+        try {
+            guess = await runInImagePool({ type: 'guessGrid', url: image.url, maskUrl: image.mask?.url, options: autoDetectOptions });
         } catch (error) {
-            console.error("Auto-detect failed:", error);
-            alert("Could not auto-detect objects. Please try again or add crops manually.");
+            console.error("Grid guess failed:", error);
         } finally {
-            setIsAutoCropping(false);
+            setIsSlicingGrid(false);
         }
+        if (!guess) {
+            alert("Could not find a regular grid on this image. Check the background under Object Detection, or set the grid by hand.");
+            return;
+        }
+        const grid = { ...gridOptions, ...guess };
+        setGridOptions(grid);
+        await runCropProposal('grid', grid);
     };
     
-    const handleColorPicked = (color: string) => {
+    // While previewing, the proposal is remade shortly after its options (or, for one image, the image) change.
+    const proposalSource = cropProposal?.source ?? null;
+    useEffect(() => {
+        const image = images.find(img => img.id === selectedImageId) || images[0];
+        const made = proposalSourceRef.current;
+        if (!proposalSource || !image) return;
+        const isCurrent = made?.source === proposalSource && (proposalSource === 'detection'
+            ? made.detectOptions === autoDetectOptions && (autoDetectOptions.frames !== 'current' || made.imageId === image.id)
+            : made.gridOptions === gridOptions && made.imageId === image.id && (!gridOptions.skipEmpty || made.detectOptions === autoDetectOptions));
+        if (isCurrent) return;
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            setIsUpdatingProposal(true);
+            proposeCrops(proposalSource, image, autoDetectOptions, gridOptions, controller.signal)
+                .then(result => {
+                    proposalSourceRef.current = { source: proposalSource, imageId: image.id, detectOptions: autoDetectOptions, gridOptions };
+                    setCropProposal({ source: proposalSource, result });
+                })
+                .catch(error => { if (!isAbortError(error)) console.error("Updating the proposed crops failed:", error); })
+                .finally(() => { if (!controller.signal.aborted) setIsUpdatingProposal(false); });
+        }, 250);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+            setIsUpdatingProposal(false);
+        };
+    }, [proposalSource, autoDetectOptions, gridOptions, proposeCrops, images, selectedImageId]);
+
+    const handleApplyProposal = () => {
+        const result = cropProposal?.result;
+        if (!result || result.crops.length === 0) return;
+        recordHistory(cropProposal.source === 'detection' ? 'Detect objects' : 'Slice grid');
+        setCrops(result.crops);
+        // Replaces all per-image adjustments: the old crops they belonged to are gone.
+        setCropOverrides(result.overrides);
+        setSelectedCropId(result.crops[0]?.id || null);
+        setCropProposal(null);
+    };
+
+    const handleDiscardProposal = () => setCropProposal(null);
+
+    const handleColorPicked = (color: string, point: { x: number; y: number }) => {
         if (colorPickerTarget === 'autoDetect') {
             setAutoDetectOptions(prev => ({...prev, color, mode: 'color'}));
         } else if (colorPickerTarget === 'bgRemove') {
-            setBgRemoveColor(color);
+            setBgKeyOptions(prev => prev.colors.includes(color) ? prev : { ...prev, colors: [...prev.colors, color] });
+        } else if (colorPickerTarget === 'bgSeed') {
+            // Stays active so several points can be placed in a row.
+            setBgKeyOptions(prev => ({ ...prev, seeds: [...prev.seeds, point] }));
+            return;
         }
         setColorPickerTarget(null);
     };
     
-    const handleToggleColorPicker = (target: 'autoDetect' | 'bgRemove') => {
+    const handleToggleColorPicker = (target: ColorPickerTarget) => {
+        setIsEditingMask(false);
         setColorPickerTarget(prev => prev === target ? null : target);
     };
     
     const handleRemoveBackground = async () => {
         if (images.length === 0) return;
+        const editedCount = images.filter((image: ImageFile) => image.mask?.edited).length;
+        if (editedCount > 0 && !confirm(`${editedCount} of ${images.length} masks were edited by hand. Recomputing will discard those edits. Continue?`)) return;
+        setIsEditingMask(false);
         setIsRemovingBackground(true);
+        const job = beginJob();
+        const trackProgress = createProgressTracker(images.map(() => 1), (processed, total) => setProgress({ processed, total }));
         try {
-            const updatedImages = await Promise.all(
-                images.map(image => removeImageBackground(image, bgRemoveColor, bgRemoveFeather))
-            );
-            setImages(updatedImages);
+            const { results, failures, cancelled } = await job.run(images, async (image: ImageFile, i, signal): Promise<ImageFile> => {
+                // Always computed from the original pixels, so re-running with new settings replaces the mask.
+                const result = await runInImagePool(
+                    { type: 'removeBackground', url: image.url, options: bgKeyOptions, previewSize: PREVIEW_SIZE },
+                    { signal, onProgress: fraction => trackProgress(i, fraction) }
+                );
+                return result ? { ...image, mask: createImageMask(result.mask, result.preview, getDespillSettings({ ...bgKeyOptions, colors: result.colors })) } : image;
+            }, getImagePoolSize());
+            if (cancelled) return;
+            // Images that failed keep their previous mask.
+            recordHistory('Remove background');
+            setImages(images.map((image, i) => results[i] ?? image));
+            if (failures.length > 0) {
+                console.error("Failed to remove background:", failures);
+                alert(`The background could not be removed from ${failures.length} of ${images.length} images:\n${failures.map(f => `${f.item.name}: ${f.message}`).join('\n')}`);
+            }
         } catch (error) {
             console.error("Failed to remove background:", error);
             alert("An error occurred while removing the background.");
         } finally {
             setIsRemovingBackground(false);
+            endJob(job);
         }
     };
 
-    const handleDownload = async () => {
-        if (images.length === 0 || crops.length === 0) return;
+    const handleClearMasks = () => {
+        recordHistory('Clear masks');
+        setImages(prev => prev.map(image => image.mask ? { ...image, mask: null } : image));
+        setIsEditingMask(false);
+    };
+
+    const handleMaskEdited = useCallback((imageId: string, mask: ImageMask) => {
+        recordHistory('Edit mask');
+        setImages(prev => prev.map(image => image.id === imageId ? { ...image, mask } : image));
+    }, [recordHistory]);
+
+    const handleToggleMaskEditing = () => {
+        setColorPickerTarget(null);
+        setIsEditingMask(prev => !prev);
+    };
+
+    // Proposes the background of every image and sets up both detection and removal from it.
+    const handleEstimateBackground = async () => {
+        if (images.length === 0) return;
+        setIsEstimatingBackground(true);
+        const job = beginJob();
+        const trackProgress = createProgressTracker(images.map(() => 1), (processed, total) => setProgress({ processed, total }));
+        try {
+            const { results, failures, cancelled } = await job.run(images, (image: ImageFile, i, signal) => runInImagePool(
+                { type: 'estimateBackground', url: image.url },
+                { signal, onProgress: fraction => trackProgress(i, fraction) }
+            ), getImagePoolSize());
+            if (cancelled) return;
+            const estimates: Record<string, BackgroundEstimate> = {};
+            images.forEach((image, i) => { if (results[i]) estimates[image.id] = results[i]!; });
+            setBackgroundEstimates(estimates);
+
+            const combined = combineEstimates(Object.values(estimates));
+            if (combined.transparent) {
+                setAutoDetectOptions(prev => ({ ...prev, mode: 'transparent' }));
+            } else if (combined.colors.length > 0) {
+                // Backgrounds that differ between images are keyed per image.
+                setAutoDetectOptions(prev => ({ ...prev, mode: combined.varies ? 'auto' : 'color', color: combined.colors[0] }));
+                setBgKeyOptions(prev => ({ ...prev, colors: combined.colors, autoColors: combined.varies, tolerance: combined.tolerance[prev.colorSpace] }));
+            }
+            if (failures.length > 0) {
+                console.error("Failed to estimate background:", failures);
+                alert(`The background of ${failures.length} of ${images.length} images could not be estimated:\n${failures.map(f => `${f.item.name}: ${f.message}`).join('\n')}`);
+            }
+        } catch (error) {
+            console.error("Failed to estimate background:", error);
+            alert("An error occurred while estimating the background.");
+        } finally {
+            setIsEstimatingBackground(false);
+            endJob(job);
+        }
+    };
+
+    // Every file the ZIP export will write, with its templated path; also drives the path preview.
+    const exportPlan = useMemo(() => planExport(
+        images, crops, filenameTemplate, resolveCropForImage,
+        image => resolveOutputFormat(outputFormatOptions, image.type, supportedFormats)
+    ), [images, crops, filenameTemplate, resolveCropForImage, outputFormatOptions, supportedFormats]);
+
+    // Exports the report's entries at `indices` into its blobs, skipping files that fail, then writes
+    // every file exported so far into one ZIP together with an errors.txt listing the failures.
+    // Cancelling keeps what was done so the export can be resumed from the results panel.
+    const runExport = async (report: ExportReport, indices: number[]) => {
         setIsLoading(true);
-        const totalOperations = images.length * crops.length;
-        setProgress({ processed: 0, total: totalOperations });
-        let processedCount = 0;
-    
+        setExportReport(null);
+        const job = beginJob();
+
+        // One task per image renders every file cut from it, so each image is decoded only once.
+        const groupsByImage = new Map<string, number[]>();
+        for (const index of indices) {
+            const imageId = report.entries[index].image.id;
+            groupsByImage.set(imageId, [...(groupsByImage.get(imageId) ?? []), index]);
+        }
+        const groups = [...groupsByImage.values()];
+        const trackProgress = createProgressTracker(groups.map(group => group.length), (processed, total) => setProgress({ processed, total }));
+        const blobs = [...report.blobs];
+        const trims = [...report.trims];
+        const entryIndex = new Map(report.entries.map((entry, i) => [entry, i]));
+        const retried = new Set(indices);
+        const failures = report.failures.filter(failure => !retried.has(entryIndex.get(failure.entry)!));
+
         try {
-            const zipFileNameBase = (images[0]?.name.split('.').slice(0, -1).join('.')) || 'cropped-images';
-    
-            for (let i = 0; i < crops.length; i++) {
-                const crop = crops[i];
+            const result = await job.run(groups, async (group, i, signal) => {
+                const encoded = await runInImagePool({
+                    type: 'render',
+                    url: report.entries[group[0]].image.url,
+                    maskUrl: report.entries[group[0]].image.mask?.url,
+                    despill: report.entries[group[0]].image.mask?.despill,
+                    outputs: group.map(index => ({ rect: report.entries[index].rect, variant: report.entries[index].variant, format: report.entries[index].format })),
+                    formatOptions: report.formatOptions,
+                    trim: report.trim,
+                }, { signal, onProgress: fraction => trackProgress(i, fraction) });
+                encoded.forEach(({ blob, trim }, j) => {
+                    const entry = report.entries[group[j]];
+                    trims[group[j]] = trim;
+                    if (blob) blobs[group[j]] = blob;
+                    else failures.push({ entry, message: `The browser could not encode this file as ${entry.format.toUpperCase()}.` });
+                });
+            }, getImagePoolSize());
+            for (const { item: group, message } of result.failures) {
+                failures.push(...group.map(index => ({ entry: report.entries[index], message })));
+            }
+            failures.sort((a, b) => entryIndex.get(a.entry)! - entryIndex.get(b.entry)!);
+
+            const nextReport: ExportReport = { ...report, blobs, trims, failures, cancelled: result.cancelled };
+            if (!result.cancelled) {
+                // Files go into the ZIP in plan order, whichever worker finished first.
                 const zip = new JSZip();
-    
-                for (const imageFile of images) {
-                    const img = new Image();
-                    img.crossOrigin = "anonymous";
-                    await new Promise((resolve, reject) => { img.onload = resolve; img.onerror = reject; img.src = imageFile.url; });
-                    
-                    const canvas = document.createElement('canvas');
-                    canvas.width = crop.width;
-                    canvas.height = crop.height;
-                    const ctx = canvas.getContext('2d');
-
-                    if (!ctx) {
-                        processedCount++;
-                        setProgress({ processed: processedCount, total: totalOperations });
-                        await new Promise(resolve => requestAnimationFrame(resolve));
-                        continue;
-                    }
-                    
-                    ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
-                    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
-                    
-                    if (blob) {
-                        const baseName = imageFile.name.substring(0, imageFile.name.lastIndexOf('.'));
-                        const fileName = `${baseName}.png`;
-                        zip.file(fileName, blob);
-                    }
-
-                    processedCount++;
-                    setProgress({ processed: processedCount, total: totalOperations });
-                    await new Promise(resolve => requestAnimationFrame(resolve));
-                }
-    
+                report.entries.forEach((entry, i) => {
+                    const blob = blobs[i];
+                    if (blob) zip.file(entry.path, blob);
+                });
+                if (report.trim) zip.file(TRIM_MANIFEST_NAME, JSON.stringify(buildTrimManifest(report.entries, trims.map((trim, i) => blobs[i] ? trim : null)), null, 2));
+                if (failures.length > 0) zip.file('errors.txt', formatErrorReport(failures, report.entries.length));
                 const zipBlob = await zip.generateAsync({ type: 'blob' });
-                const link = document.createElement('a');
-                link.href = URL.createObjectURL(zipBlob);
-                link.download = crops.length > 1 ? `${zipFileNameBase}-crop-${i + 1}.zip` : `${zipFileNameBase}-crop.zip`;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-                URL.revokeObjectURL(link.href);
-
-                if (i < crops.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 500));
-                }
+                downloadBlob(zipBlob, report.zipName);
             }
+            setExportReport(nextReport.cancelled || failures.length > 0 ? nextReport : null);
         } catch (error) {
             console.error("Failed to create zip file:", error);
             alert("An error occurred while creating the zip file.");
         } finally {
             setIsLoading(false);
-            setProgress(null);
+            endJob(job);
+        }
+    };
+
+    const handleDownload = () => {
+        if (images.length === 0 || crops.length === 0) return;
+        const zipFileNameBase = (images[0]?.name.split('.').slice(0, -1).join('.')) || 'cropped-images';
+        runExport({
+            entries: exportPlan,
+            formatOptions: outputFormatOptions,
+            trim: exportTrim.enabled ? { background: autoDetectOptions, padding: exportTrim.padding } : null,
+            blobs: new Array(exportPlan.length).fill(null),
+            trims: new Array(exportPlan.length).fill(null),
+            failures: [],
+            cancelled: false,
+            zipName: `${zipFileNameBase}-crops.zip`,
+        }, exportPlan.map((_, i) => i));
+    };
+
+    // Exports again only what is missing from the last run: failed files and, after a cancel, the ones never reached.
+    const handleResumeExport = () => {
+        if (!exportReport) return;
+        const pending = exportReport.blobs.flatMap((blob, i) => blob ? [] : [i]);
+        runExport(exportReport, pending);
+    };
+
+    // Crops the given images with `crop`, resolved per image, into their own canvases, reporting
+    // progress as it goes. Frames are rendered in the worker pool with the crop's primary output
+    // variant; with `uniformSize` every frame is scaled to the size of the global crop's output.
+    const renderCropFrames = async (crop: CropRect, sourceImages: ImageFile[], uniformSize: boolean, signal: AbortSignal) => {
+        const variant = getCropOutputs(crop)[0];
+        const uniformGeometry = computeOutputGeometry(crop.width, crop.height, variant);
+        const size = uniformSize ? { width: uniformGeometry.canvasWidth, height: uniformGeometry.canvasHeight } : null;
+        const trackProgress = createProgressTracker(sourceImages.map(() => 1), (processed, total) => setProgress({ processed, total }));
+        const bitmaps = await Promise.all(sourceImages.map((imageFile, i) => {
+            const { x, y, width, height } = resolveCropForImage(crop, imageFile);
+            return runInImagePool(
+                { type: 'renderFrame', url: imageFile.url, maskUrl: imageFile.mask?.url, despill: imageFile.mask?.despill, rect: { x, y, width, height }, variant, size },
+                { signal, onProgress: fraction => trackProgress(i, fraction) }
+            );
+        }));
+        return bitmaps.map(bitmap => {
+            const canvas = document.createElement('canvas');
+            canvas.width = bitmap.width;
+            canvas.height = bitmap.height;
+            canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+            bitmap.close();
+            return canvas;
+        });
+    };
+
+    const handleExportSpriteSheet = async () => {
+        const crop = crops.find(c => c.id === selectedCropId);
+        if (images.length === 0 || !crop) return;
+        setIsLoading(true);
+        const job = beginJob();
+
+        try {
+            const frameCanvases = await renderCropFrames(crop, images, false, job.signal);
+            const sheetBaseName = `${getBaseName(images[0].name) || 'sprites'}-sheet`;
+            // Atlas frames are keyed by name, so images sharing a stem (a.png, a.jpg) need distinct ones.
+            const usedNames = new Set<string>();
+            const layout = layoutSpriteSheet(
+                images.map((imageFile, i) => ({ name: claimUniquePath(`${getBaseName(imageFile.name)}.png`, usedNames), width: frameCanvases[i].width, height: frameCanvases[i].height })),
+                spriteSheetOptions
+            );
+            const sheetCanvas = drawSpriteSheet(frameCanvases, layout, spriteSheetOptions.extrude);
+            const sheetBlob = await canvasToBlob(sheetCanvas);
+            if (!sheetBlob) throw new Error("Could not encode the sprite sheet.");
+
+            const atlas = buildAtlasDescriptor(layout, spriteSheetOptions, `${sheetBaseName}.png`);
+            const zip = new JSZip();
+            zip.file(`${sheetBaseName}.png`, sheetBlob);
+            zip.file(`${sheetBaseName}.json`, JSON.stringify(atlas, null, 2));
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), `${sheetBaseName}.zip`);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error("Failed to export sprite sheet:", error);
+                alert("An error occurred while creating the sprite sheet.");
+            }
+        } finally {
+            setIsLoading(false);
+            endJob(job);
+        }
+    };
+
+    const handleExportAnimation = async () => {
+        const crop = crops.find(c => c.id === selectedCropId);
+        if (images.length === 0 || !crop) return;
+        setIsLoading(true);
+        setIsExportingAnimation(true);
+        const job = beginJob();
+
+        try {
+            // Encode exactly what the preview plays: same range, direction, ping-pong and holds.
+            const timeline = buildTimeline(images, playback);
+            const usedIndices = [...new Set(timeline.map(frame => frame.index))];
+            const renderedFrames = await renderCropFrames(crop, usedIndices.map(i => images[i]), true, job.signal);
+            const framesByIndex = new Map(usedIndices.map((index, i) => [index, renderedFrames[i]]));
+            const loopCount = playback.loopMode === 'once' ? 1 : animationExportOptions.loopCount;
+            const blob = await encodeAnimation(
+                timeline.map(frame => framesByIndex.get(frame.index)!),
+                timeline.map(frame => frame.duration),
+                { ...animationExportOptions, loopCount }
+            );
+            const baseName = getBaseName(images[0].name) || 'animation';
+            downloadBlob(blob, `${baseName}-animation.${ANIMATION_FILE_TYPES[animationExportOptions.format].extension}`);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error("Failed to export animation:", error);
+                alert(`An error occurred while encoding the animation.${error instanceof Error ? ` ${error.message}` : ''}`);
+            }
+        } finally {
+            setIsLoading(false);
+            setIsExportingAnimation(false);
+            endJob(job);
+        }
+    };
+
+    // Replaces the crops with a saved layout, scaled from the size it was made on to the current image.
+    const applySavedCrops = (label: string, saved: SavedCrop[], savedSize: { width: number; height: number }) => {
+        if (!mainImage) return;
+        const restored = restoreSavedCrops(saved, savedSize, mainImage);
+        recordHistory(label);
+        setCrops(restored);
+        setCropOverrides({});
+        setSelectedCropId(restored[0]?.id ?? null);
+        setCropProposal(null);
+    };
+
+    const getProjectSettings = (): ProjectSettings => ({
+        autoDetect: autoDetectOptions,
+        backgroundKey: bgKeyOptions,
+        grid: gridOptions,
+        outputFormat: outputFormatOptions,
+        exportTrim,
+        filenameTemplate,
+        spriteSheet: spriteSheetOptions,
+        animationExport: animationExportOptions,
+    });
+
+    const handleSaveProject = (includeImages: boolean) => {
+        if (!mainImage) return;
+        const project = createProjectFile(crops, mainImage, getProjectSettings(), includeImages ? images : undefined);
+        const baseName = getBaseName(images[0].name) || 'crops';
+        downloadBlob(new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' }), `${baseName}-project.json`);
+    };
+
+    const handleLoadProject = async (file: File) => {
+        let project: ProjectFile;
+        try {
+            project = parseProjectFile(await file.text(), getProjectSettings());
+        } catch (error) {
+            console.error("Failed to load project:", error);
+            alert(`Could not load the project.${error instanceof Error ? ` ${error.message}` : ''}`);
+            return;
+        }
+        const { settings } = project;
+        if (settings.autoDetect) setAutoDetectOptions(prev => ({ ...prev, ...settings.autoDetect }));
+        if (settings.backgroundKey) setBgKeyOptions(prev => ({ ...prev, ...settings.backgroundKey }));
+        if (settings.grid) setGridOptions(prev => ({ ...prev, ...settings.grid }));
+        if (settings.outputFormat) setOutputFormatOptions(prev => ({ ...prev, ...settings.outputFormat }));
+        if (settings.exportTrim) setExportTrim(prev => ({ ...prev, ...settings.exportTrim }));
+        if (typeof settings.filenameTemplate === 'string') setFilenameTemplate(settings.filenameTemplate);
+        if (settings.spriteSheet) setSpriteSheetOptions(prev => ({ ...prev, ...settings.spriteSheet }));
+        if (settings.animationExport) setAnimationExportOptions(prev => ({ ...prev, ...settings.animationExport }));
+        applySavedCrops('Load project', project.crops, project.imageSize);
+
+        if (project.images) {
+            const loadedNames = new Set(images.map(image => image.name));
+            const missing = project.images.filter(image => !loadedNames.has(image.name)).length;
+            if (missing > 0) alert(`${missing} of the ${project.images.length} images listed in the project are not loaded. Its crops were applied to the current images.`);
+        }
+    };
+
+    const updateCropPresets = (presets: CropPreset[]) => {
+        setCropPresets(presets);
+        if (!saveCropPresets(presets)) alert("The presets could not be stored in this browser and will be lost on reload.");
+    };
+
+    const handleSavePreset = (name: string) => {
+        if (!mainImage) return;
+        if (cropPresets.some(preset => preset.name === name) && !confirm(`Replace the preset "${name}"?`)) return;
+        const preset: CropPreset = {
+            id: `preset-${Date.now()}`,
+            name,
+            imageSize: { width: mainImage.width, height: mainImage.height },
+            crops: toSavedCrops(crops),
+            savedAt: Date.now(),
+        };
+        updateCropPresets([preset, ...cropPresets.filter(p => p.name !== name)]);
+    };
+
+    const handleDeletePreset = (id: string) => updateCropPresets(cropPresets.filter(preset => preset.id !== id));
+
+    useEffect(() => {
+        getSavedSession()
+            .then(session => {
+                // Too late to offer it once images are loaded; autosave replaces it instead.
+                if (snapshotRef.current.images.length === 0) setSavedSession(session);
+                return getStorageUsage();
+            })
+            .then(setStorageUsage)
+            .catch(error => console.error("Could not read the saved session:", error));
+    }, []);
+
+    // Autosave shortly after the last change, once there is something to save. A saved session that
+    // is still on offer is never overwritten; starting anew has to dismiss it first.
+    useEffect(() => {
+        if (images.length === 0 || isRestoringSession || savedSession) return;
+        const timer = setTimeout(() => {
+            saveSession(images, { crops, cropOverrides, alignmentOffsets, selectedImageId, selectedCropId })
+                .catch(error => console.error("Could not save the session:", error));
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [images, crops, cropOverrides, alignmentOffsets, selectedImageId, selectedCropId, isRestoringSession, savedSession]);
+
+    const handleRestoreSession = async () => {
+        setIsRestoringSession(true);
+        try {
+            const restored = await restoreSession();
+            if (!restored || restored.images.length === 0) {
+                alert("The saved session is no longer available.");
+                setSavedSession(null);
+                return;
+            }
+            const { state, images: restoredImages } = restored;
+            setImages(restoredImages);
+            setHistory(createHistory());
+            setCrops(state.crops);
+            setCropOverrides(state.cropOverrides);
+            setAlignmentOffsets(state.alignmentOffsets);
+            setSelectedImageId(restoredImages.some(image => image.id === state.selectedImageId) ? state.selectedImageId : restoredImages[0].id);
+            setSelectedCropId(state.selectedCropId);
+            setSavedSession(null);
+        } catch (error) {
+            console.error("Failed to restore the session:", error);
+            alert("Could not restore the previous session.");
+        } finally {
+            setIsRestoringSession(false);
+        }
+    };
+
+    const handleClearSession = async () => {
+        if (!confirm("Delete the saved session? Its images and crops cannot be recovered afterwards.")) return;
+        try {
+            await clearSession();
+            setSavedSession(null);
+            setStorageUsage(await getStorageUsage());
+        } catch (error) {
+            console.error("Failed to clear the session:", error);
+            alert("Could not clear the saved session.");
         }
     };
 
     const handleScrollToThumbnails = () => thumbnailsRef.current?.scrollIntoView({ behavior: 'smooth' });
 
+    useEffect(() => {
+        detectSupportedFormats().then(setSupportedFormats);
+    }, []);
+
     useEffect(() => {
         const observer = new IntersectionObserver(([entry]) => {
             setShowScrollButton(!entry.isIntersecting && entry.boundingClientRect.top > window.innerHeight);
@@ -578,28 +968,63 @@ const App: React.FC = () => {
         return () => { if (currentRef) observer.unobserve(currentRef); };
     }, [images.length]);
 
-    const mainImage = images.find(img => img.id === selectedImageId) || images[0];
-    const selectedCrop = crops.find(c => c.id === selectedCropId) || null;
+    const maskedCount = images.filter(image => image.mask).length;
+    const displayCrops = mainImage ? crops.map(c => resolveCropForImage(c, mainImage)) : crops;
+    const selectedDisplayCrop = displayCrops.find(c => c.id === selectedCropId) || null;
 
     return (
         <div className="min-h-screen flex flex-col p-4 md:p-8">
             {images.length === 0 ? (
-                <WelcomeScreen onFileChange={handleFileChange} />
+                <WelcomeScreen onFileChange={handleFileChange}>
+                    {savedSession && (
+                        <SessionRestorePrompt session={savedSession} storageUsage={storageUsage} onRestore={handleRestoreSession} onClear={handleClearSession} isRestoring={isRestoringSession} />
+                    )}
+                </WelcomeScreen>
             ) : (
                 <div className="flex flex-col gap-8 flex-grow">
                     {mainImage && (
                         <main className="flex flex-col gap-6">
-                            <CropEditor image={mainImage} crops={crops} selectedCropId={selectedCropId} onCropChange={handleCropChange} onSelectCrop={handleSelectCrop} isPickingColor={!!colorPickerTarget} onColorPick={handleColorPicked} />
-                            <CropPreviews image={mainImage} crops={crops} selectedCropId={selectedCropId} onSelectCrop={handleSelectCrop} />
+                            <CropEditor image={mainImage} crops={displayCrops} selectedCropId={selectedCropId} onCropChange={handleCropChange} onSelectCrop={handleSelectCrop} isPickingColor={!!colorPickerTarget} onColorPick={handleColorPicked} seedPoints={bgKeyOptions.mode === 'seeds' ? bgKeyOptions.seeds : undefined} proposedCrops={cropProposal?.result.crops.map(crop => resolveCrop(crop, mainImage, cropProposal.result.overrides))} images={images} onionSkin={onionSkin} maskView={maskView} maskEditing={isEditingMask ? { brush: maskBrush, onBrushChange: setMaskBrush, onMaskChange: handleMaskEdited, onClose: () => setIsEditingMask(false) } : null} />
+                            {images.length > 1 && <OnionSkinControls settings={onionSkin} onChange={setOnionSkin} />}
+                            {cropProposal && (
+                                <ProposedCropsBar source={cropProposal.source === 'detection' ? 'Detection' : 'Grid'} count={cropProposal.result.crops.length} isUpdating={isUpdatingProposal} onApply={handleApplyProposal} onDiscard={handleDiscardProposal}>
+                                    {cropProposal.result.frames && <DetectionFrameSummary frames={cropProposal.result.frames} images={images} objectCount={cropProposal.result.crops.length} selectedImageId={mainImage.id} onSelectImage={setSelectedImageId} />}
+                                </ProposedCropsBar>
+                            )}
+                            <HistoryPanel past={history.past.map(entry => entry.label)} future={[...history.future].reverse().map(entry => entry.label)} onUndo={handleUndo} onRedo={handleRedo} />
+                            <ProjectControls
+                                onSaveProject={handleSaveProject}
+                                onLoadProject={handleLoadProject}
+                                presets={cropPresets}
+                                onSavePreset={handleSavePreset}
+                                onApplyPreset={(preset: CropPreset) => applySavedCrops(`Apply preset "${preset.name}"`, preset.crops, preset.imageSize)}
+                                onDeletePreset={handleDeletePreset}
+                                hasCrops={crops.length > 0}
+                            />
+                            <MaskControls settings={maskView} onChange={setMaskView} maskedCount={maskedCount} imageCount={images.length} hasMask={!!mainImage.mask} isEditing={isEditingMask} onToggleEditing={handleToggleMaskEditing} />
+                            <CropPreviews image={mainImage} crops={displayCrops} selectedCropId={selectedCropId} onSelectCrop={handleSelectCrop} onUpdateCrop={handleUpdateCrop} onReorderCrops={handleReorderCrops} />
                             <Controls 
-                                selectedCrop={selectedCrop}
+                                selectedCrop={selectedDisplayCrop}
+                                selectedCropIndex={crops.findIndex(c => c.id === selectedCropId)}
+                                onUpdateCrop={handleUpdateCrop}
+                                onDuplicateCrop={handleDuplicateCrop}
+                                onMirrorCrop={handleMirrorCrop}
                                 onCropChange={handleCropChange} 
                                 onDownload={handleDownload}
+                                onCancel={activeJob ? handleCancelJob : undefined}
+                                onTogglePause={activeJob ? handleTogglePauseJob : undefined}
+                                isPaused={isJobPaused}
                                 onAutoDetect={handleAutoDetectObjects}
                                 autoDetectOptions={autoDetectOptions}
                                 onAutoDetectOptionsChange={setAutoDetectOptions}
+                                colorPickerTarget={colorPickerTarget}
                                 onToggleColorPicker={handleToggleColorPicker}
                                 isAutoCropping={isAutoCropping}
+                                gridOptions={gridOptions}
+                                onGridOptionsChange={setGridOptions}
+                                onSliceGrid={handleSliceGrid}
+                                onGuessGrid={handleGuessGrid}
+                                isSlicingGrid={isSlicingGrid}
                                 isDisabled={images.length === 0}
                                 isLoading={isLoading}
                                 progress={progress}
@@ -608,12 +1033,48 @@ const App: React.FC = () => {
                                 onAddCrop={handleAddCrop}
                                 onDeleteCrop={handleDeleteCrop}
                                 onRemoveBackground={handleRemoveBackground}
-                                bgRemoveColor={bgRemoveColor}
-                                onBgRemoveColorChange={setBgRemoveColor}
+                                onClearMasks={handleClearMasks}
+                                hasMasks={maskedCount > 0}
+                                bgKeyOptions={bgKeyOptions}
+                                onEstimateBackground={handleEstimateBackground}
+                                isEstimatingBackground={isEstimatingBackground}
+                                backgroundEstimate={backgroundEstimates[mainImage.id] ?? null}
+                                lowConfidenceCount={images.filter(image => (backgroundEstimates[image.id]?.confidence ?? 1) < LOW_CONFIDENCE).length}
+                                onBgKeyOptionsChange={setBgKeyOptions}
                                 isRemovingBackground={isRemovingBackground}
-                                bgRemoveFeather={bgRemoveFeather}
-                                onBgRemoveFeatherChange={setBgRemoveFeather}
+                                spriteSheetOptions={spriteSheetOptions}
+                                onSpriteSheetOptionsChange={setSpriteSheetOptions}
+                                onExportSpriteSheet={handleExportSpriteSheet}
+                                isEditingImageOnly={isEditingImageOnly}
+                                onEditingImageOnlyChange={setIsEditingImageOnly}
+                                selectedCropHasOverride={!!(selectedCropId && getCropOverride(cropOverrides, mainImage.id, selectedCropId))}
+                                imageHasOverrides={hasCropOverrides(cropOverrides, mainImage.id)}
+                                onResetCropOverride={handleResetCropOverride}
+                                onResetImageOverrides={handleResetImageOverrides}
+                                images={images}
+                                alignmentOptions={alignmentOptions}
+                                onAlignmentOptionsChange={setAlignmentOptions}
+                                onAlignFrames={handleAlignFrames}
+                                onClearAlignment={handleClearAlignment}
+                                alignmentProgress={alignmentProgress}
+                                currentAlignmentOffset={alignmentOffsets[mainImage.id] ?? null}
+                                outputFormatOptions={outputFormatOptions}
+                                onOutputFormatOptionsChange={setOutputFormatOptions}
+                                exportTrim={exportTrim}
+                                onExportTrimChange={setExportTrim}
+                                supportedFormats={supportedFormats}
+                                filenameTemplate={filenameTemplate}
+                                onFilenameTemplateChange={setFilenameTemplate}
+                                exportPaths={exportPlan.map(entry => entry.path)}
                             />
+                            {exportReport && (
+                                <ExportResults
+                                    report={exportReport}
+                                    onResume={handleResumeExport}
+                                    onDismiss={() => setExportReport(null)}
+                                    isDisabled={!!activeJob || isLoading}
+                                />
+                            )}
                         </main>
                     )}
 
@@ -624,7 +1085,8 @@ const App: React.FC = () => {
                                 <Thumbnail
                                     key={img.id}
                                     image={img}
-                                    crop={crops[0] || {id: '', x: 0, y: 0, width: img.width, height: img.height}}
+                                    crop={crops[0] ? resolveCropForImage(crops[0], img) : {id: '', x: 0, y: 0, width: img.width, height: img.height}}
+                                    hasOverride={hasCropOverrides(cropOverrides, img.id)}
                                     isSelected={img.id === selectedImageId}
                                     onClick={() => setSelectedImageId(img.id)}
                                 />
@@ -638,9 +1100,15 @@ const App: React.FC = () => {
                             <SpriteSheetPreview
                                 images={images}
                                 crop={selectedCrop}
-                                animationState={animationState}
-                                onTogglePlay={() => setAnimationState(s => ({ ...s, isPlaying: !s.isPlaying }))}
-                                onToggleReverse={() => setAnimationState(s => ({ ...s, isReversed: !s.isReversed }))}
+                                resolveCrop={resolveCropForImage}
+                                playback={playback}
+                                onPlaybackChange={setPlayback}
+                                isPlaying={isPlaying}
+                                onIsPlayingChange={setIsPlaying}
+                                exportOptions={animationExportOptions}
+                                onExportOptionsChange={setAnimationExportOptions}
+                                onExport={handleExportAnimation}
+                                isExporting={isExportingAnimation}
                             />
                         </section>
                     )}
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { BackgroundEstimate } from '../types';
+import { LOW_CONFIDENCE } from '../utils/backgroundEstimation';
+import { LoaderIcon, MagicWandIcon } from './Icons';
+
+interface BackgroundEstimateControlsProps {
+    onEstimate: () => void;
+    isEstimating: boolean;
+    isDisabled: boolean;
+    // Estimate for the image shown in the editor, if one has been made.
+    estimate: BackgroundEstimate | null;
+    lowConfidenceCount: number;
+}
+
+export const BackgroundEstimateControls: React.FC<BackgroundEstimateControlsProps> = ({ onEstimate, isEstimating, isDisabled, estimate, lowConfidenceCount }) => (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+        <h3 className="font-semibold text-gray-300 mb-3">Background</h3>
+        <p className="text-sm text-gray-400 mb-4">Estimate each image's background from its border and set up detection and removal with it.</p>
+        {estimate && (
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                {estimate.transparentShare >= 0.5 ? (
+                    <span className="text-gray-300">Transparent</span>
+                ) : estimate.colors.map(({ color, share }) => (
+                    <span key={color} className="flex items-center gap-1.5 font-mono text-gray-300" title={`${Math.round(share * 100)}% of the border`}>
+                        <span className="w-5 h-5 rounded border border-gray-600" style={{ backgroundColor: color }} />
+                        {color}
+                    </span>
+                ))}
+                <span className={estimate.confidence < LOW_CONFIDENCE ? 'text-amber-400' : 'text-gray-400'}>
+                    {Math.round(estimate.confidence * 100)}% confidence
+                </span>
+                {lowConfidenceCount > 0 && (
+                    <span className="text-amber-400">{lowConfidenceCount} {lowConfidenceCount === 1 ? 'image' : 'images'} below {Math.round(LOW_CONFIDENCE * 100)}%</span>
+                )}
+            </div>
+        )}
+        <button
+            onClick={onEstimate}
+            disabled={isDisabled}
+            className="w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+            {isEstimating ? (<><LoaderIcon className="animate-spin" /> Estimating...</>) : (<><MagicWandIcon /> Estimate Background</>)}
+        </button>
+    </div>
+);
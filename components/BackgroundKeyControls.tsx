@@ -0,0 +1,128 @@
+import React from 'react';
+import type { BackgroundKeyOptions, ColorPickerTarget, KeyColorSpace, KeyMode } from '../types';
+import { KEY_TOLERANCE_RANGES } from '../utils/backgroundRemoval';
+import { EyeDropperIcon, PlusIcon, CrosshairIcon } from './Icons';
+
+interface BackgroundKeyControlsProps {
+    options: BackgroundKeyOptions;
+    onChange: (options: BackgroundKeyOptions) => void;
+    colorPickerTarget: ColorPickerTarget | null;
+    onToggleColorPicker: (target: ColorPickerTarget) => void;
+}
+
+const MODES: { value: KeyMode; label: string; description: string }[] = [
+    { value: 'contiguous', label: 'Connected to edges', description: 'Removes key-colored areas that touch the image border.' },
+    { value: 'global', label: 'Everywhere', description: 'Removes every key-colored pixel, including enclosed holes.' },
+    { value: 'seeds', label: 'From picked points', description: 'Removes the key-colored areas around the points you click on the image.' },
+];
+
+const Slider: React.FC<{ id: string; label: string; value: number; display: string; min: number; max: number; step?: number; onChange: (value: number) => void }> = ({ id, label, value, display, min, max, step = 1, onChange }) => (
+    <div className="flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+            <label htmlFor={id} className="text-sm font-medium text-gray-400">{label}</label>
+            <span className="text-sm font-mono text-gray-300 bg-gray-700 px-2 py-0.5 rounded">{display}</span>
+        </div>
+        <input
+            id={id}
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+        />
+    </div>
+);
+
+export const BackgroundKeyControls: React.FC<BackgroundKeyControlsProps> = ({ options, onChange, colorPickerTarget, onToggleColorPicker }) => {
+    const update = (changes: Partial<BackgroundKeyOptions>) => onChange({ ...options, ...changes });
+    const setColor = (index: number, color: string) => update({ colors: options.colors.map((c, i) => i === index ? color : c) });
+    const removeColor = (index: number) => update({ colors: options.colors.filter((_, i) => i !== index) });
+    // Tolerances mean different things in each space, so switching starts from that space's default.
+    const setColorSpace = (colorSpace: KeyColorSpace) => update({ colorSpace, tolerance: KEY_TOLERANCE_RANGES[colorSpace].default });
+    const range = KEY_TOLERANCE_RANGES[options.colorSpace];
+    const unit = options.colorSpace === 'lab' ? 'ΔE' : '';
+
+    return (
+        <div className="flex flex-col gap-4 mb-4">
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium text-gray-400">Key Colors</span>
+                    <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer" title="Estimate the key colors from each image's border">
+                        <input type="checkbox" checked={options.autoColors} onChange={e => update({ autoColors: e.target.checked })} className="form-checkbox bg-gray-700 border-gray-600 text-teal-500 rounded focus:ring-teal-500" />
+                        Auto per image
+                    </label>
+                </div>
+                <div className={`flex flex-wrap items-center gap-2 ${options.autoColors ? 'opacity-50 pointer-events-none' : ''}`}>
+                    {options.colors.map((color, i) => (
+                        <div key={i} className="relative group">
+                            <input type="color" value={color} onChange={e => setColor(i, e.target.value)} className="w-8 h-8 rounded border-none bg-gray-700 cursor-pointer" aria-label={`Key color ${i + 1}`} />
+                            {options.colors.length > 1 && (
+                                <button
+                                    onClick={() => removeColor(i)}
+                                    className="absolute -top-1.5 -right-1.5 w-4 h-4 leading-none text-[10px] bg-gray-900 text-gray-300 hover:text-white rounded-full opacity-0 group-hover:opacity-100"
+                                    aria-label={`Remove key color ${i + 1}`}
+                                >
+                                    ×
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    <button onClick={() => update({ colors: [...options.colors, options.colors[options.colors.length - 1] ?? '#ffffff'] })} className="p-2 bg-gray-600 hover:bg-gray-500 rounded-md" aria-label="Add key color">
+                        <PlusIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => onToggleColorPicker('bgRemove')}
+                        className={`p-2 rounded-md ${colorPickerTarget === 'bgRemove' ? 'bg-teal-600 hover:bg-teal-700' : 'bg-gray-600 hover:bg-gray-500'}`}
+                        aria-label="Pick a key color from the image"
+                        title="Pick a key color from the image"
+                    >
+                        <EyeDropperIcon className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="key-color-space" className="block text-sm font-medium text-gray-400 mb-1">Color Distance</label>
+                    <select
+                        id="key-color-space"
+                        value={options.colorSpace}
+                        onChange={e => setColorSpace(e.target.value as KeyColorSpace)}
+                        className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                        <option value="rgb">RGB</option>
+                        <option value="lab">Perceptual (CIE Lab ΔE)</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="key-mode" className="block text-sm font-medium text-gray-400 mb-1">Remove</label>
+                    <select
+                        id="key-mode"
+                        value={options.mode}
+                        onChange={e => update({ mode: e.target.value as KeyMode })}
+                        className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                        {MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">{MODES.find(mode => mode.value === options.mode)?.description}</p>
+            {options.mode === 'seeds' && (
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => onToggleColorPicker('bgSeed')}
+                        className={`flex items-center gap-2 text-sm font-semibold py-1.5 px-3 rounded-md ${colorPickerTarget === 'bgSeed' ? 'bg-teal-600 hover:bg-teal-700 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'}`}
+                    >
+                        <CrosshairIcon className="w-4 h-4" /> {colorPickerTarget === 'bgSeed' ? 'Click the image…' : 'Add Points'}
+                    </button>
+                    <span className="text-sm text-gray-400">{options.seeds.length} {options.seeds.length === 1 ? 'point' : 'points'}</span>
+                    <button onClick={() => update({ seeds: [] })} disabled={options.seeds.length === 0} className="text-sm text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">Clear</button>
+                </div>
+            )}
+            <Slider id="key-tolerance" label="Tolerance" value={Math.min(options.tolerance, range.max)} display={`${options.tolerance}${unit && ` ${unit}`}`} min={0} max={range.max} onChange={tolerance => update({ tolerance })} />
+            <Slider id="feather-slider" label="Edge Softness" value={options.feather} display={String(options.feather)} min={0} max={100} onChange={feather => update({ feather })} />
+            <Slider id="despill-slider" label="Despill" value={options.despill} display={`${Math.round(options.despill * 100)}%`} min={0} max={1} step={0.05} onChange={despill => update({ despill })} />
+        </div>
+    );
+};
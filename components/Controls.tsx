@@ -1,30 +1,94 @@
 
 
 import React from 'react';
-import type { CropRect } from '../types';
-import { DownloadIcon, LoaderIcon, MagicWandIcon, PlusIcon, TrashIcon, EyeDropperIcon, EraserIcon } from './Icons';
-
-type AutoDetectOptions = { mode: 'transparent' | 'color'; color: string };
+import type { AutoDetectOptions, CropRect, ImageFile, SpriteSheetOptions, SpriteSheetLayout, AtlasFormat, AlignmentOptions, AlignmentMethod, FrameOffset, OutputFormat, OutputFormatOptions, ExportTrimOptions, BackgroundKeyOptions, BackgroundEstimate, ColorPickerTarget, DetectionFrames, GridSliceOptions } from '../types';
+import { CropConstraintsControls } from './CropConstraintsControls';
+import { OutputVariantsControls } from './OutputVariantsControls';
+import { BackgroundKeyControls } from './BackgroundKeyControls';
+import { BackgroundEstimateControls } from './BackgroundEstimateControls';
+import { DetectionTuningControls } from './DetectionTuningControls';
+import { GridSliceControls } from './GridSliceControls';
+import { CropDetailsControls } from './CropDetailsControls';
+import { constrainCrop } from '../utils/cropConstraints';
+import { getCropOutputs } from '../utils/render';
+import { OUTPUT_FORMATS } from '../utils/formats';
+import { FILENAME_TEMPLATE_PRESETS, FILENAME_TOKENS } from '../utils/exportPlan';
+import { DownloadIcon, LoaderIcon, MagicWandIcon, PlusIcon, TrashIcon, EyeDropperIcon, EraserIcon, GridIcon, CrosshairIcon } from './Icons';
 
 interface ControlsProps {
     selectedCrop: CropRect | null;
+    selectedCropIndex: number;
     onCropChange: (updatedCrop: CropRect) => void;
+    // Changes to the crop's name, label, lock and visibility, which aren't geometry edits.
+    onUpdateCrop: (id: string, changes: Partial<CropRect>, label: string, mergeKey?: string) => void;
+    onDuplicateCrop: () => void;
+    onMirrorCrop: (axis: 'horizontal' | 'vertical') => void;
     onDownload: () => void;
+    // Present while a cancellable batch is running.
+    onCancel?: () => void;
+    onTogglePause?: () => void;
+    isPaused: boolean;
     
     // Auto Detect
     onAutoDetect: () => void;
     autoDetectOptions: AutoDetectOptions;
     onAutoDetectOptionsChange: (options: AutoDetectOptions) => void;
-    onToggleColorPicker: (target: 'autoDetect' | 'bgRemove') => void;
+    colorPickerTarget: ColorPickerTarget | null;
+    onToggleColorPicker: (target: ColorPickerTarget) => void;
     isAutoCropping: boolean;
+
+    // Grid Slicing
+    gridOptions: GridSliceOptions;
+    onGridOptionsChange: (options: GridSliceOptions) => void;
+    onSliceGrid: () => void;
+    onGuessGrid: () => void;
+    isSlicingGrid: boolean;
     
     // Background Removal
     onRemoveBackground: () => void;
-    bgRemoveColor: string;
-    onBgRemoveColorChange: (color: string) => void;
+    onClearMasks: () => void;
+    hasMasks: boolean;
+    bgKeyOptions: BackgroundKeyOptions;
+    onBgKeyOptionsChange: (options: BackgroundKeyOptions) => void;
     isRemovingBackground: boolean;
-    bgRemoveFeather: number;
-    onBgRemoveFeatherChange: (value: number) => void;
+    onEstimateBackground: () => void;
+    isEstimatingBackground: boolean;
+    backgroundEstimate: BackgroundEstimate | null;
+    lowConfidenceCount: number;
+
+    // Sprite Sheet
+    spriteSheetOptions: SpriteSheetOptions;
+    onSpriteSheetOptionsChange: (options: SpriteSheetOptions) => void;
+    onExportSpriteSheet: () => void;
+
+    // Per-image overrides
+    isEditingImageOnly: boolean;
+    onEditingImageOnlyChange: (value: boolean) => void;
+    selectedCropHasOverride: boolean;
+    imageHasOverrides: boolean;
+    onResetCropOverride: () => void;
+    onResetImageOverrides: () => void;
+
+    // Frame Alignment
+    images: ImageFile[];
+    alignmentOptions: AlignmentOptions;
+    onAlignmentOptionsChange: (options: AlignmentOptions) => void;
+    onAlignFrames: () => void;
+    onClearAlignment: () => void;
+    alignmentProgress: { processed: number; total: number } | null;
+    currentAlignmentOffset: FrameOffset | null;
+
+    // Output Format
+    outputFormatOptions: OutputFormatOptions;
+    onOutputFormatOptionsChange: (options: OutputFormatOptions) => void;
+    supportedFormats: OutputFormat[];
+    exportTrim: ExportTrimOptions;
+    onExportTrimChange: (options: ExportTrimOptions) => void;
+
+    // File Names
+    filenameTemplate: string;
+    onFilenameTemplateChange: (template: string) => void;
+    exportPaths: string[];
 
     // General state
     isDisabled: boolean;
@@ -51,53 +115,87 @@ const ControlInput: React.FC<{ label: string; value: number; max: number; onChan
 );
 
 export const Controls: React.FC<ControlsProps> = ({ 
-    selectedCrop, onCropChange, onDownload, onAutoDetect, autoDetectOptions, 
-    onAutoDetectOptionsChange, onToggleColorPicker, isAutoCropping, isDisabled, 
-    isLoading, progress, imageWidth, imageHeight, onAddCrop, onDeleteCrop, onRemoveBackground,
-    bgRemoveColor, onBgRemoveColorChange, isRemovingBackground, bgRemoveFeather, onBgRemoveFeatherChange
+    selectedCrop, selectedCropIndex, onCropChange, onUpdateCrop, onDuplicateCrop, onMirrorCrop, onDownload, onCancel, onTogglePause, isPaused, onAutoDetect, autoDetectOptions, 
+    onAutoDetectOptionsChange, colorPickerTarget, onToggleColorPicker, isAutoCropping, isDisabled, 
+    gridOptions, onGridOptionsChange, onSliceGrid, onGuessGrid, isSlicingGrid,
+    isLoading, progress, imageWidth, imageHeight, onAddCrop, onDeleteCrop, onRemoveBackground, onClearMasks, hasMasks,
+    bgKeyOptions, onBgKeyOptionsChange, isRemovingBackground, onEstimateBackground, isEstimatingBackground, backgroundEstimate, lowConfidenceCount,
+    spriteSheetOptions, onSpriteSheetOptionsChange, onExportSpriteSheet,
+    isEditingImageOnly, onEditingImageOnlyChange, selectedCropHasOverride, imageHasOverrides, onResetCropOverride, onResetImageOverrides,
+    images, alignmentOptions, onAlignmentOptionsChange, onAlignFrames, onClearAlignment, alignmentProgress, currentAlignmentOffset,
+    outputFormatOptions, onOutputFormatOptionsChange, supportedFormats, exportTrim, onExportTrimChange,
+    filenameTemplate, onFilenameTemplateChange, exportPaths
 }) => {
 
-    const handleInputChange = (field: keyof Omit<CropRect, 'id'>, value: number) => {
+    const handleInputChange = (field: 'x' | 'y' | 'width' | 'height', value: number) => {
         if (!selectedCrop || isNaN(value)) return;
-        
-        const newCrop = { ...selectedCrop, [field]: value };
-
-        if (field === 'x' && value + newCrop.width > imageWidth) {
-            newCrop.x = imageWidth - newCrop.width;
-        }
-        if (field === 'y' && value + newCrop.height > imageHeight) {
-            newCrop.y = imageHeight - newCrop.height;
-        }
-        if (field === 'width' && newCrop.x + value > imageWidth) {
-            newCrop.width = imageWidth - newCrop.x;
-        }
-        if (field === 'height' && newCrop.y + value > imageHeight) {
-            newCrop.height = imageHeight - newCrop.y;
-        }
-
-        onCropChange(newCrop);
+
+        // Position edits move the crop; size edits resize from the top-left corner.
+        const handle = field === 'width' ? 'e' : field === 'height' ? 's' : 'move';
+        onCropChange(constrainCrop({ ...selectedCrop, [field]: value }, selectedCrop, handle, selectedCrop.constraints, { width: imageWidth, height: imageHeight }));
     };
 
-    const isActionDisabled = isDisabled || isLoading || isAutoCropping || isRemovingBackground;
+    const isAligning = !!alignmentProgress;
+    const isActionDisabled = isDisabled || isLoading || isAutoCropping || isSlicingGrid || isRemovingBackground || isEstimatingBackground || isAligning;
     const isCropSelected = !!selectedCrop;
     const { mode: bgDetectMode, color: bgDetectColor } = autoDetectOptions;
+    const { format: outputFormat, quality: outputQuality, jpegBackground } = outputFormatOptions;
+    // Keeping the source format can produce any supported lossy format, so all of their qualities apply.
+    const qualityFormats = (outputFormat === 'source' ? supportedFormats : [outputFormat])
+        .filter((format): format is Exclude<OutputFormat, 'png'> => OUTPUT_FORMATS[format].lossy);
 
     return (
         <div className="bg-gray-800/50 backdrop-blur-sm p-4 rounded-lg border border-gray-700 w-full flex flex-col gap-6">
+            {selectedCrop && (
+                <CropDetailsControls
+                    crop={selectedCrop}
+                    cropIndex={selectedCropIndex}
+                    onChange={(changes, label, mergeKey) => onUpdateCrop(selectedCrop.id, changes, label, mergeKey)}
+                    onDuplicate={onDuplicateCrop}
+                    onMirror={onMirrorCrop}
+                    isDisabled={isActionDisabled}
+                />
+            )}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <ControlInput label="X" value={selectedCrop?.x ?? 0} max={imageWidth - (selectedCrop?.width ?? 0)} onChange={(v) => handleInputChange('x', v)} disabled={!isCropSelected} />
-                <ControlInput label="Y" value={selectedCrop?.y ?? 0} max={imageHeight - (selectedCrop?.height ?? 0)} onChange={(v) => handleInputChange('y', v)} disabled={!isCropSelected} />
-                <ControlInput label="Width" value={selectedCrop?.width ?? 0} max={imageWidth - (selectedCrop?.x ?? 0)} onChange={(v) => handleInputChange('width', v)} disabled={!isCropSelected} />
-                <ControlInput label="Height" value={selectedCrop?.height ?? 0} max={imageHeight - (selectedCrop?.y ?? 0)} onChange={(v) => handleInputChange('height', v)} disabled={!isCropSelected} />
+                <ControlInput label="X" value={selectedCrop?.x ?? 0} max={imageWidth - (selectedCrop?.width ?? 0)} onChange={(v) => handleInputChange('x', v)} disabled={!isCropSelected || !!selectedCrop?.locked} />
+                <ControlInput label="Y" value={selectedCrop?.y ?? 0} max={imageHeight - (selectedCrop?.height ?? 0)} onChange={(v) => handleInputChange('y', v)} disabled={!isCropSelected || !!selectedCrop?.locked} />
+                <ControlInput label="Width" value={selectedCrop?.width ?? 0} max={imageWidth - (selectedCrop?.x ?? 0)} onChange={(v) => handleInputChange('width', v)} disabled={!isCropSelected || !!selectedCrop?.locked} />
+                <ControlInput label="Height" value={selectedCrop?.height ?? 0} max={imageHeight - (selectedCrop?.y ?? 0)} onChange={(v) => handleInputChange('height', v)} disabled={!isCropSelected || !!selectedCrop?.locked} />
             </div>
+            {selectedCrop && (
+                <CropConstraintsControls
+                    constraints={selectedCrop.constraints}
+                    onChange={constraints => onCropChange(constrainCrop({ ...selectedCrop, constraints }, selectedCrop, 'se', constraints, { width: imageWidth, height: imageHeight }))}
+                    isDisabled={!!selectedCrop.locked}
+                />
+            )}
+            {selectedCrop && (
+                <OutputVariantsControls
+                    outputs={getCropOutputs(selectedCrop)}
+                    cropWidth={selectedCrop.width}
+                    cropHeight={selectedCrop.height}
+                    onChange={outputs => onCropChange({ ...selectedCrop, outputs })}
+                />
+            )}
 
             <div className="flex flex-col md:flex-row gap-4 border-t border-gray-700 pt-6">
                 <div className="flex-1 flex flex-col gap-4">
+                    <BackgroundEstimateControls
+                        onEstimate={onEstimateBackground}
+                        isEstimating={isEstimatingBackground}
+                        isDisabled={isActionDisabled}
+                        estimate={backgroundEstimate}
+                        lowConfidenceCount={lowConfidenceCount}
+                    />
                     {/* Object Detection */}
                     <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
                         <h3 className="font-semibold text-gray-300 mb-3">Object Detection</h3>
-                        <p className="text-sm text-gray-400 mb-4">Automatically find objects by defining the background.</p>
+                        <p className="text-sm text-gray-400 mb-4">Automatically find objects by defining the background. Results are previewed on the image before they replace your crops.</p>
                         <div className="flex flex-wrap items-center gap-6 mb-4">
+                            <label className="flex items-center gap-2 cursor-pointer" title="Estimate each image's background from its border">
+                                <input type="radio" name="bg-mode" checked={bgDetectMode === 'auto'} onChange={() => onAutoDetectOptionsChange({...autoDetectOptions, mode: 'auto'})} className="form-radio bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"/>
+                                Auto
+                            </label>
                             <label className="flex items-center gap-2 cursor-pointer">
                                 <input type="radio" name="bg-mode" checked={bgDetectMode === 'transparent'} onChange={() => onAutoDetectOptionsChange({...autoDetectOptions, mode: 'transparent'})} className="form-radio bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"/>
                                 Transparent
@@ -111,6 +209,26 @@ export const Controls: React.FC<ControlsProps> = ({
                                 </button>
                             </label>
                         </div>
+                        <div className="mb-4">
+                            <label htmlFor="detect-frames" className="block text-sm font-medium text-gray-400 mb-1">Frames</label>
+                            <select
+                                id="detect-frames"
+                                value={autoDetectOptions.frames}
+                                onChange={e => onAutoDetectOptionsChange({ ...autoDetectOptions, frames: e.target.value as DetectionFrames })}
+                                className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                                <option value="current">Current image only</option>
+                                <option value="union">All images: box covering every frame</option>
+                                <option value="intersection">All images: box common to every frame</option>
+                                <option value="track">All images: track each object per frame</option>
+                            </select>
+                        </div>
+                        <details className="mb-4">
+                            <summary className="text-sm font-medium text-gray-400 cursor-pointer select-none hover:text-gray-300">Tuning</summary>
+                            <div className="mt-3">
+                                <DetectionTuningControls options={autoDetectOptions} onChange={onAutoDetectOptionsChange} />
+                            </div>
+                        </details>
                         <button
                             onClick={onAutoDetect}
                             disabled={isActionDisabled}
@@ -119,41 +237,81 @@ export const Controls: React.FC<ControlsProps> = ({
                             {isAutoCropping ? (<><LoaderIcon className="animate-spin" /> Detecting...</>) : (<><MagicWandIcon /> Detect Objects</>)}
                         </button>
                     </div>
+                    <GridSliceControls
+                        options={gridOptions}
+                        onChange={onGridOptionsChange}
+                        onSlice={onSliceGrid}
+                        onGuess={onGuessGrid}
+                        isSlicing={isSlicingGrid}
+                        isDisabled={isActionDisabled}
+                    />
                     {/* Background Removal */}
                     <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
                         <h3 className="font-semibold text-gray-300 mb-3">Background Removal</h3>
-                        <p className="text-sm text-gray-400 mb-4">Remove a background color from all images with advanced edge detection.</p>
-                        <div className="flex items-center gap-4 mb-4">
-                            <label className="flex items-center gap-2 cursor-pointer">
-                                Color
-                                <input type="color" value={bgRemoveColor} onChange={e => onBgRemoveColorChange(e.target.value)} className="w-8 h-8 rounded border-none bg-gray-700 cursor-pointer disabled:opacity-50"/>
-                            </label>
-                            <button onClick={() => onToggleColorPicker('bgRemove')} className="p-2 bg-gray-600 hover:bg-gray-500 rounded-md disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Pick color from image for removal">
-                                <EyeDropperIcon className="w-5 h-5" />
+                        <p className="text-sm text-gray-400 mb-4">Mask out one or more background colors on all images with soft, despilled edges. The originals are kept, so you can re-run with new settings at any time.</p>
+                        <BackgroundKeyControls
+                            options={bgKeyOptions}
+                            onChange={onBgKeyOptionsChange}
+                            colorPickerTarget={colorPickerTarget}
+                            onToggleColorPicker={onToggleColorPicker}
+                        />
+                        <div className="flex gap-4">
+                            <button
+                                onClick={onRemoveBackground}
+                                disabled={isActionDisabled}
+                                className="flex-1 flex items-center justify-center gap-2 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"
+                            >
+                                {isRemovingBackground ? (<><LoaderIcon className="animate-spin" /> Removing...</>) : (<><EraserIcon /> {hasMasks ? 'Recompute Masks' : 'Remove Background'}</>)}
                             </button>
+                            <button onClick={onClearMasks} disabled={isActionDisabled || !hasMasks} className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200">Clear</button>
                         </div>
-                        <div className="flex flex-col gap-2 mb-4">
-                            <div className="flex justify-between items-center">
-                                <label htmlFor="feather-slider" className="text-sm font-medium text-gray-400">Edge Softness</label>
-                                <span className="text-sm font-mono text-gray-300 bg-gray-700 px-2 py-0.5 rounded">{bgRemoveFeather}</span>
+                    </div>
+                    {/* Frame Alignment */}
+                    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+                        <h3 className="font-semibold text-gray-300 mb-3">Frame Alignment</h3>
+                        <p className="text-sm text-gray-400 mb-4">Estimate how each frame is shifted against a reference and move the crops with it.</p>
+                        <div className="grid grid-cols-2 gap-4 mb-4">
+                            <div className="col-span-2">
+                                <label htmlFor="align-reference" className="block text-sm font-medium text-gray-400 mb-1">Reference Image</label>
+                                <select
+                                    id="align-reference"
+                                    value={alignmentOptions.referenceImageId ?? ''}
+                                    onChange={e => onAlignmentOptionsChange({ ...alignmentOptions, referenceImageId: e.target.value || null })}
+                                    className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                                >
+                                    <option value="">Currently selected image</option>
+                                    {images.map(img => <option key={img.id} value={img.id}>{img.name}</option>)}
+                                </select>
                             </div>
-                            <input
-                                id="feather-slider"
-                                type="range"
-                                min="0"
-                                max="100"
-                                value={bgRemoveFeather}
-                                onChange={e => onBgRemoveFeatherChange(parseInt(e.target.value, 10))}
-                                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-                            />
+                            <div>
+                                <label htmlFor="align-method" className="block text-sm font-medium text-gray-400 mb-1">Method</label>
+                                <select
+                                    id="align-method"
+                                    value={alignmentOptions.method}
+                                    onChange={e => onAlignmentOptionsChange({ ...alignmentOptions, method: e.target.value as AlignmentMethod })}
+                                    className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                                >
+                                    <option value="phase">Phase Correlation</option>
+                                    <option value="block">Block Matching</option>
+                                </select>
+                            </div>
+                            <ControlInput label="Max Shift (px)" value={alignmentOptions.maxShift} max={1024} onChange={(v) => !isNaN(v) && onAlignmentOptionsChange({ ...alignmentOptions, maxShift: Math.max(1, v) })} disabled={false} />
+                        </div>
+                        {currentAlignmentOffset && (
+                            <p className="text-sm text-gray-400 mb-4">
+                                This image: <span className="font-mono text-gray-300">{currentAlignmentOffset.dx.toFixed(1)}, {currentAlignmentOffset.dy.toFixed(1)} px</span>
+                            </p>
+                        )}
+                        <div className="flex gap-4">
+                            <button
+                                onClick={onAlignFrames}
+                                disabled={isActionDisabled || images.length < 2}
+                                className="flex-1 flex items-center justify-center gap-2 bg-amber-600 hover:bg-amber-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"
+                            >
+                                {isAligning ? (<><LoaderIcon className="animate-spin" /> Aligning {alignmentProgress.processed}/{alignmentProgress.total}</>) : (<><CrosshairIcon /> Align Frames</>)}
+                            </button>
+                            <button onClick={onClearAlignment} disabled={isActionDisabled} className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200">Clear</button>
                         </div>
-                        <button
-                            onClick={onRemoveBackground}
-                            disabled={isActionDisabled}
-                            className="w-full flex items-center justify-center gap-2 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"
-                        >
-                            {isRemovingBackground ? (<><LoaderIcon className="animate-spin" /> Removing...</>) : (<><EraserIcon /> Remove Background</>)}
-                        </button>
                     </div>
                 </div>
 
@@ -164,13 +322,198 @@ export const Controls: React.FC<ControlsProps> = ({
                             <button onClick={onAddCrop} disabled={isActionDisabled} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"><PlusIcon /> Add Crop</button>
                             <button onClick={onDeleteCrop} disabled={isActionDisabled || !isCropSelected} className="flex-1 flex items-center justify-center gap-2 bg-red-700 hover:bg-red-600 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"><TrashIcon /> Delete Selected</button>
                         </div>
+                        {/* Per-image Overrides */}
+                        <div className="border-t border-gray-700 pt-4 mb-4">
+                            <label className="flex items-center gap-2 cursor-pointer mb-2">
+                                <input type="checkbox" checked={isEditingImageOnly} onChange={e => onEditingImageOnlyChange(e.target.checked)} className="form-checkbox bg-gray-700 border-gray-600 text-amber-500 rounded focus:ring-amber-500" />
+                                Adjust crops for this image only
+                            </label>
+                            <p className="text-sm text-gray-400 mb-4">Edits are stored as an offset (or a full rect when resized) on top of the global crop.</p>
+                            <div className="flex gap-4">
+                                <button onClick={onResetCropOverride} disabled={isActionDisabled || !selectedCropHasOverride} className="flex-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200">Reset Crop to Global</button>
+                                <button onClick={onResetImageOverrides} disabled={isActionDisabled || !imageHasOverrides} className="flex-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200">Reset Image to Global</button>
+                            </div>
+                        </div>
+                        {/* Sprite Sheet */}
+                        <div className="border-t border-gray-700 pt-4 mb-4">
+                            <h3 className="font-semibold text-gray-300 mb-3">Sprite Sheet</h3>
+                            <p className="text-sm text-gray-400 mb-4">Pack every frame of the selected crop into one sheet with a TexturePacker JSON atlas.</p>
+                            <div className="grid grid-cols-2 gap-4 mb-4">
+                                <div>
+                                    <label htmlFor="sheet-layout" className="block text-sm font-medium text-gray-400 mb-1">Layout</label>
+                                    <select
+                                        id="sheet-layout"
+                                        value={spriteSheetOptions.layout}
+                                        onChange={e => onSpriteSheetOptionsChange({ ...spriteSheetOptions, layout: e.target.value as SpriteSheetLayout })}
+                                        className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                                    >
+                                        <option value="grid">Grid</option>
+                                        <option value="strip">Horizontal Strip</option>
+                                        <option value="packed">Bin-packed</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="sheet-atlas" className="block text-sm font-medium text-gray-400 mb-1">Atlas Format</label>
+                                    <select
+                                        id="sheet-atlas"
+                                        value={spriteSheetOptions.atlasFormat}
+                                        onChange={e => onSpriteSheetOptionsChange({ ...spriteSheetOptions, atlasFormat: e.target.value as AtlasFormat })}
+                                        className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                                    >
+                                        <option value="hash">JSON (Hash)</option>
+                                        <option value="array">JSON (Array)</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-4 mb-4">
+                                {spriteSheetOptions.layout === 'grid' && (
+                                    <ControlInput label="Columns (0 = auto)" value={spriteSheetOptions.columns} max={1000} onChange={(v) => !isNaN(v) && onSpriteSheetOptionsChange({ ...spriteSheetOptions, columns: Math.max(0, v) })} disabled={false} />
+                                )}
+                                <ControlInput label="Padding" value={spriteSheetOptions.padding} max={64} onChange={(v) => !isNaN(v) && onSpriteSheetOptionsChange({ ...spriteSheetOptions, padding: Math.max(0, v) })} disabled={false} />
+                                <ControlInput label="Extrude" value={spriteSheetOptions.extrude} max={16} onChange={(v) => !isNaN(v) && onSpriteSheetOptionsChange({ ...spriteSheetOptions, extrude: Math.max(0, v) })} disabled={false} />
+                            </div>
+                            <button
+                                onClick={onExportSpriteSheet}
+                                disabled={isActionDisabled || !isCropSelected}
+                                className="w-full flex items-center justify-center gap-2 bg-violet-600 hover:bg-violet-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"
+                            >
+                                <GridIcon /> Export Sprite Sheet
+                            </button>
+                        </div>
+                        {/* Output Format */}
+                        <div className="border-t border-gray-700 pt-4 mb-4">
+                            <h3 className="font-semibold text-gray-300 mb-3">Output Format</h3>
+                            <div className="flex flex-wrap items-end gap-4">
+                                <div>
+                                    <label htmlFor="output-format" className="block text-sm font-medium text-gray-400 mb-1">Format</label>
+                                    <select
+                                        id="output-format"
+                                        value={outputFormat}
+                                        onChange={e => onOutputFormatOptionsChange({ ...outputFormatOptions, format: e.target.value as OutputFormat | 'source' })}
+                                        className="bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                                    >
+                                        <option value="source">Keep source format</option>
+                                        {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                                            <option key={format} value={format} disabled={!supportedFormats.includes(format)}>
+                                                {OUTPUT_FORMATS[format].label}{supportedFormats.includes(format) ? '' : ' (not supported)'}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {qualityFormats.map(format => (
+                                    <div key={format} className="flex-1 min-w-[140px]">
+                                        <label htmlFor={`output-quality-${format}`} className="block text-sm font-medium text-gray-400 mb-1">{OUTPUT_FORMATS[format].label} Quality ({Math.round(outputQuality[format] * 100)})</label>
+                                        <input
+                                            id={`output-quality-${format}`}
+                                            type="range"
+                                            min="0.1"
+                                            max="1"
+                                            step="0.01"
+                                            value={outputQuality[format]}
+                                            onChange={e => onOutputFormatOptionsChange({ ...outputFormatOptions, quality: { ...outputQuality, [format]: parseFloat(e.target.value) } })}
+                                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                                        />
+                                    </div>
+                                ))}
+                                {(outputFormat === 'jpeg' || outputFormat === 'source') && (
+                                    <div className="flex items-center gap-2 pb-2">
+                                        <label className="flex items-center gap-2 cursor-pointer text-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={jpegBackground !== null}
+                                                onChange={e => onOutputFormatOptionsChange({ ...outputFormatOptions, jpegBackground: e.target.checked ? '#ffffff' : null })}
+                                                className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500"
+                                            />
+                                            JPEG background
+                                        </label>
+                                        <input
+                                            type="color"
+                                            value={jpegBackground ?? '#ffffff'}
+                                            disabled={jpegBackground === null}
+                                            onChange={e => onOutputFormatOptionsChange({ ...outputFormatOptions, jpegBackground: e.target.value })}
+                                            className="w-8 h-8 rounded border-none bg-gray-700 cursor-pointer disabled:opacity-50"
+                                            aria-label="JPEG background color"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            {outputFormat === 'source' && (
+                                <p className="text-sm text-gray-400 mt-2">Each image is written in its uploaded format; formats this browser can't encode fall back to PNG.</p>
+                            )}
+                            <div className="flex flex-wrap items-center gap-4 mt-4">
+                                <label className="flex items-center gap-2 cursor-pointer text-sm" title="Uses the background set under Object Detection">
+                                    <input
+                                        type="checkbox"
+                                        checked={exportTrim.enabled}
+                                        onChange={e => onExportTrimChange({ ...exportTrim, enabled: e.target.checked })}
+                                        className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500"
+                                    />
+                                    Trim empty margins
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-gray-400">
+                                    Padding
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={exportTrim.padding}
+                                        disabled={!exportTrim.enabled}
+                                        onChange={e => {
+                                            const padding = parseInt(e.target.value, 10);
+                                            if (!isNaN(padding)) onExportTrimChange({ ...exportTrim, padding: Math.max(0, padding) });
+                                        }}
+                                        className="w-20 bg-gray-700 border-gray-600 text-white rounded-md p-1.5 text-sm focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50"
+                                    />
+                                </label>
+                            </div>
+                            {exportTrim.enabled && (
+                                <p className="text-sm text-gray-400 mt-2">Each file is cut down to its content. Offsets into the untrimmed frame (<code className="text-sky-300">sourceSize</code> / <code className="text-sky-300">spriteSourceSize</code>) are written to <code className="text-sky-300">trim.json</code> next to the images.</p>
+                            )}
+                        </div>
+                        {/* File Names */}
+                        <div className="border-t border-gray-700 pt-4 mb-4">
+                            <h3 className="font-semibold text-gray-300 mb-3">File Names</h3>
+                            <div className="flex gap-2 mb-2">
+                                <input
+                                    type="text"
+                                    value={filenameTemplate}
+                                    onChange={e => onFilenameTemplateChange(e.target.value)}
+                                    spellCheck={false}
+                                    className="flex-1 min-w-0 bg-gray-700 border-gray-600 text-white font-mono text-sm rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                                    aria-label="File name template"
+                                />
+                                <select
+                                    value=""
+                                    onChange={e => e.target.value && onFilenameTemplateChange(e.target.value)}
+                                    className="bg-gray-700 border-gray-600 text-white rounded-md p-2 text-sm focus:ring-sky-500 focus:border-sky-500"
+                                    aria-label="File name presets"
+                                >
+                                    <option value="">Presets…</option>
+                                    {FILENAME_TEMPLATE_PRESETS.map(preset => <option key={preset.label} value={preset.template}>{preset.label}</option>)}
+                                </select>
+                            </div>
+                            <p className="text-xs text-gray-400 mb-2">
+                                Tokens: {FILENAME_TOKENS.map(token => <code key={token} className="text-sky-300 mr-1">{token}</code>)} — use <code className="text-sky-300">/</code> for folders.
+                            </p>
+                            <ul className="bg-gray-900 rounded-md p-2 max-h-32 overflow-y-auto font-mono text-xs text-gray-300">
+                                {exportPaths.slice(0, 20).map(path => <li key={path} className="truncate" title={path}>{path}</li>)}
+                                {exportPaths.length > 20 && <li className="text-gray-500">…and {exportPaths.length - 20} more</li>}
+                            </ul>
+                        </div>
                     </div>
                     <div className="flex flex-col gap-4">
-                        {isLoading && progress && (
+                        {progress && (
                             <div>
-                                <div className="flex justify-between mb-1">
-                                    <span className="text-base font-medium text-gray-300">Processing Images</span>
-                                    <span className="text-sm font-medium text-gray-300">{progress.processed} / {progress.total}</span>
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="text-base font-medium text-gray-300">{isPaused ? 'Paused' : 'Processing Images'}</span>
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-sm font-medium text-gray-300">{Math.floor(progress.processed)} / {progress.total}</span>
+                                        {onTogglePause && (
+                                            <button onClick={onTogglePause} className="text-sm bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-3 rounded transition-colors duration-200">{isPaused ? 'Resume' : 'Pause'}</button>
+                                        )}
+                                        {onCancel && (
+                                            <button onClick={onCancel} className="text-sm bg-red-700 hover:bg-red-600 text-white font-semibold py-1 px-3 rounded transition-colors duration-200">Cancel</button>
+                                        )}
+                                    </div>
                                 </div>
                                 <div className="w-full bg-gray-700 rounded-full h-2.5">
                                     <div
@@ -188,7 +531,7 @@ export const Controls: React.FC<ControlsProps> = ({
                             {isLoading ? (
                                 <><LoaderIcon className="animate-spin" /> Processing...</>
                             ) : (
-                                <><DownloadIcon /> Download Crops (Separate Zips)</>
+                                <><DownloadIcon /> Download Crops (ZIP)</>
                             )}
                         </button>
                     </div>
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { CropConstraints } from '../types';
+import { ASPECT_RATIO_PRESETS, DEFAULT_CONSTRAINTS } from '../utils/cropConstraints';
+
+interface CropConstraintsControlsProps {
+    constraints: CropConstraints | undefined;
+    onChange: (constraints: CropConstraints) => void;
+    // Locked crops keep their geometry, which the constraints would reshape.
+    isDisabled?: boolean;
+}
+
+const SmallNumberInput: React.FC<{ label: string; value: number | ''; onChange: (value: number | null) => void; min?: number; disabled?: boolean; placeholder?: string }> = ({ label, value, onChange, min = 1, disabled = false, placeholder }) => (
+    <div className="w-24">
+        <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+        <input
+            type="number"
+            min={min}
+            value={value}
+            placeholder={placeholder}
+            onChange={e => {
+                if (e.target.value === '') return onChange(null);
+                const v = parseInt(e.target.value, 10);
+                if (!isNaN(v)) onChange(Math.max(min, v));
+            }}
+            disabled={disabled}
+            className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-1.5 text-sm focus:ring-sky-500 focus:border-sky-500 disabled:bg-gray-800 disabled:cursor-not-allowed"
+        />
+    </div>
+);
+
+export const CropConstraintsControls: React.FC<CropConstraintsControlsProps> = ({ constraints, onChange, isDisabled = false }) => {
+    const c = { ...DEFAULT_CONSTRAINTS, ...constraints };
+    const update = (changes: Partial<CropConstraints>) => onChange({ ...c, ...changes });
+
+    const presetIndex = c.aspectRatio
+        ? ASPECT_RATIO_PRESETS.findIndex(p => p.ratio.width === c.aspectRatio!.width && p.ratio.height === c.aspectRatio!.height)
+        : -1;
+    const aspectValue = !c.aspectRatio ? 'free' : presetIndex >= 0 ? String(presetIndex) : 'custom';
+
+    const handleAspectChange = (value: string) => {
+        if (value === 'free') update({ aspectRatio: null });
+        else if (value === 'custom') update({ aspectRatio: c.aspectRatio ?? { width: 1, height: 1 } });
+        else update({ aspectRatio: ASPECT_RATIO_PRESETS[parseInt(value, 10)].ratio });
+    };
+
+    return (
+        <fieldset disabled={isDisabled} className="flex flex-wrap items-end gap-4 bg-gray-900/50 p-3 rounded-lg border border-gray-700 disabled:opacity-50">
+            <div>
+                <label htmlFor="crop-aspect" className="block text-xs font-medium text-gray-400 mb-1">Aspect Ratio</label>
+                <select
+                    id="crop-aspect"
+                    value={aspectValue}
+                    onChange={e => handleAspectChange(e.target.value)}
+                    disabled={!!c.fixedSize}
+                    className="bg-gray-700 border-gray-600 text-white rounded-md p-1.5 text-sm focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50"
+                >
+                    <option value="free">Free</option>
+                    {ASPECT_RATIO_PRESETS.map((preset, i) => <option key={preset.label} value={i}>{preset.label}</option>)}
+                    <option value="custom">Custom</option>
+                </select>
+            </div>
+            {aspectValue === 'custom' && c.aspectRatio && (
+                <>
+                    <SmallNumberInput label="Ratio W" value={c.aspectRatio.width} onChange={v => v && update({ aspectRatio: { ...c.aspectRatio!, width: v } })} />
+                    <SmallNumberInput label="Ratio H" value={c.aspectRatio.height} onChange={v => v && update({ aspectRatio: { ...c.aspectRatio!, height: v } })} />
+                </>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer text-sm pb-1.5">
+                <input
+                    type="checkbox"
+                    checked={!!c.fixedSize}
+                    onChange={e => update({ fixedSize: e.target.checked ? { width: 64, height: 64 } : null })}
+                    className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500"
+                />
+                Fixed size
+            </label>
+            {c.fixedSize && (
+                <>
+                    <SmallNumberInput label="Fixed W" value={c.fixedSize.width} onChange={v => v && update({ fixedSize: { ...c.fixedSize!, width: v } })} />
+                    <SmallNumberInput label="Fixed H" value={c.fixedSize.height} onChange={v => v && update({ fixedSize: { ...c.fixedSize!, height: v } })} />
+                </>
+            )}
+            <SmallNumberInput label="Min W" value={c.minWidth} onChange={v => update({ minWidth: v ?? DEFAULT_CONSTRAINTS.minWidth })} disabled={!!c.fixedSize} />
+            <SmallNumberInput label="Min H" value={c.minHeight} onChange={v => update({ minHeight: v ?? DEFAULT_CONSTRAINTS.minHeight })} disabled={!!c.fixedSize} />
+            <SmallNumberInput label="Max W" value={c.maxWidth ?? ''} placeholder="none" onChange={v => update({ maxWidth: v })} disabled={!!c.fixedSize} />
+            <SmallNumberInput label="Max H" value={c.maxHeight ?? ''} placeholder="none" onChange={v => update({ maxHeight: v })} disabled={!!c.fixedSize} />
+            <SmallNumberInput label="Snap (px)" value={c.snap} onChange={v => update({ snap: v ?? 1 })} />
+        </fieldset>
+    );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import type { CropRect } from '../types';
+import { CROP_COLORS } from '../utils/crops';
+import { EyeIcon, EyeOffIcon, LockIcon, PlusIcon } from './Icons';
+
+interface CropDetailsControlsProps {
+    crop: CropRect;
+    cropIndex: number;
+    // `mergeKey` folds a run of edits (e.g. typing a name) into one history step.
+    onChange: (changes: Partial<CropRect>, label: string, mergeKey?: string) => void;
+    onDuplicate: () => void;
+    onMirror: (axis: 'horizontal' | 'vertical') => void;
+    isDisabled: boolean;
+}
+
+const toggleClasses = (isOn: boolean) =>
+    `flex items-center gap-1.5 text-sm font-semibold py-1.5 px-3 rounded-md transition-colors duration-200 ${isOn ? 'bg-amber-600 hover:bg-amber-700 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'}`;
+
+// Name, label color, lock/visibility and copy actions of the selected crop.
+export const CropDetailsControls: React.FC<CropDetailsControlsProps> = ({ crop, cropIndex, onChange, onDuplicate, onMirror, isDisabled }) => (
+    <div className="flex flex-wrap items-end gap-4">
+        <div className="flex-1 min-w-[180px]">
+            <label htmlFor="crop-name" className="block text-sm font-medium text-gray-400 mb-1">Name</label>
+            <input
+                id="crop-name"
+                type="text"
+                value={crop.name ?? ''}
+                placeholder={`crop-${cropIndex + 1}`}
+                onChange={e => onChange({ name: e.target.value || undefined }, 'Rename crop', `name:${crop.id}`)}
+                spellCheck={false}
+                className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+        </div>
+        <div>
+            <span className="block text-sm font-medium text-gray-400 mb-1">Label</span>
+            <div className="flex items-center gap-1.5 h-10">
+                <button
+                    onClick={() => onChange({ color: undefined }, 'Clear crop label')}
+                    className={`w-6 h-6 rounded-full border-2 bg-gray-700 ${!crop.color ? 'border-white' : 'border-gray-600'}`}
+                    aria-label="No label color"
+                    title="None"
+                />
+                {CROP_COLORS.map(color => (
+                    <button
+                        key={color}
+                        onClick={() => onChange({ color }, 'Label crop')}
+                        className={`w-6 h-6 rounded-full border-2 ${crop.color === color ? 'border-white' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                        aria-label={`Label color ${color}`}
+                    />
+                ))}
+            </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pb-1">
+            <button onClick={() => onChange({ locked: !crop.locked }, crop.locked ? 'Unlock crop' : 'Lock crop')} className={toggleClasses(!!crop.locked)} title="Locked crops can't be moved or resized">
+                <LockIcon className="w-4 h-4" /> {crop.locked ? 'Locked' : 'Lock'}
+            </button>
+            <button onClick={() => onChange({ hidden: !crop.hidden }, crop.hidden ? 'Show crop' : 'Hide crop')} className={toggleClasses(!!crop.hidden)} title="Hidden crops aren't drawn over the image but are still exported">
+                {crop.hidden ? <><EyeOffIcon className="w-4 h-4" /> Hidden</> : <><EyeIcon className="w-4 h-4" /> Hide</>}
+            </button>
+            <button onClick={onDuplicate} disabled={isDisabled} className="flex items-center gap-1.5 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 px-3 rounded-md transition-colors duration-200">
+                <PlusIcon className="w-4 h-4" /> Duplicate
+            </button>
+            <button onClick={() => onMirror('horizontal')} disabled={isDisabled} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 px-3 rounded-md transition-colors duration-200" title="Add a copy reflected across the image's vertical center line">
+                Mirror ↔
+            </button>
+            <button onClick={() => onMirror('vertical')} disabled={isDisabled} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 px-3 rounded-md transition-colors duration-200" title="Add a copy reflected across the image's horizontal center line">
+                Mirror ↕
+            </button>
+        </div>
+    </div>
+);
@@ -1,7 +1,11 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { ImageFile, CropRect } from '../types';
-
-type Handle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw' | 'move';
+import type { ImageFile, ImageMask, CropRect, CropHandle as Handle, OnionSkinSettings, MaskViewSettings, MaskBrushSettings } from '../types';
+import { OnionSkinOverlay } from './OnionSkinOverlay';
+import { MaskEditor } from './MaskEditor';
+import { LockIcon } from './Icons';
+import { constrainCrop } from '../utils/cropConstraints';
+import { getCropName } from '../utils/exportPlan';
+import type { Bounds } from '../utils/detection';
 
 interface CropEditorProps {
     image: ImageFile;
@@ -10,10 +14,31 @@ interface CropEditorProps {
     onCropChange: (updatedCrop: CropRect) => void;
     onSelectCrop: (id: string | null) => void;
     isPickingColor?: boolean;
-    onColorPick?: (color: string) => void;
+    // Color and source-pixel position of the clicked point.
+    onColorPick?: (color: string, point: { x: number; y: number }) => void;
+    // Background-removal seed points to mark on the image.
+    seedPoints?: { x: number; y: number }[];
+    // Crops waiting to be applied, drawn over the current ones.
+    proposedCrops?: Bounds[] | null;
+    images?: ImageFile[];
+    onionSkin?: OnionSkinSettings;
+    maskView?: MaskViewSettings;
+    // Replaces crop editing with brush touch-up of the mask while set.
+    maskEditing?: {
+        brush: MaskBrushSettings;
+        onBrushChange: (brush: MaskBrushSettings) => void;
+        onMaskChange: (imageId: string, mask: ImageMask) => void;
+        onClose: () => void;
+    } | null;
 }
 
-export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCropId, onCropChange, onSelectCrop, isPickingColor = false, onColorPick }) => {
+const CHECKERBOARD: React.CSSProperties = {
+    backgroundColor: '#d1d5db',
+    backgroundImage: 'conic-gradient(#9ca3af 25%, transparent 0 50%, #9ca3af 0 75%, transparent 0)',
+    backgroundSize: '16px 16px',
+};
+
+export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCropId, onCropChange, onSelectCrop, isPickingColor = false, onColorPick, seedPoints, proposedCrops, images = [], onionSkin, maskView, maskEditing }) => {
     const [activeHandle, setActiveHandle] = useState<Handle | null>(null);
     const imageRef = useRef<HTMLImageElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -36,6 +61,7 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
         if (crop.id !== selectedCropId) {
             onSelectCrop(crop.id);
         }
+        if (crop.locked) return;
         setActiveHandle(handle);
         const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
         const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
@@ -54,7 +80,6 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
         const deltaY = (clientY - startPos.current.y) * scaleY;
         
         let { x, y, width, height } = startPos.current.crop;
-        const minSize = 20;
 
         if (activeHandle.includes('e')) width += deltaX;
         if (activeHandle.includes('w')) {
@@ -70,27 +95,9 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
             x += deltaX;
             y += deltaY;
         }
-        
-        if (width < minSize) {
-            if (activeHandle.includes('w')) x = startPos.current.crop.x + startPos.current.crop.width - minSize;
-            width = minSize;
-        }
-        if (height < minSize) {
-            if (activeHandle.includes('n')) y = startPos.current.crop.y + startPos.current.crop.height - minSize;
-            height = minSize;
-        }
 
-        if (activeHandle === 'move') {
-            x = Math.max(0, Math.min(x, image.width - width));
-            y = Math.max(0, Math.min(y, image.height - height));
-        } else {
-            x = Math.max(0, x);
-            y = Math.max(0, y);
-            width = Math.min(width, image.width - x);
-            height = Math.min(height, image.height - y);
-        }
-
-        onCropChange({ ...startPos.current.crop, x, y, width, height });
+        const startCrop = startPos.current.crop;
+        onCropChange(constrainCrop({ ...startCrop, x, y, width, height }, startCrop, activeHandle, startCrop.constraints, image));
     }, [activeHandle, getScale, image.width, image.height, onCropChange]);
 
     const handleInteractionEnd = useCallback(() => {
@@ -145,7 +152,7 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
             const pixel = ctx.getImageData(x, y, 1, 1).data;
             const toHex = (c: number) => `0${c.toString(16)}`.slice(-2);
             const color = `#${toHex(pixel[0])}${toHex(pixel[1])}${toHex(pixel[2])}`;
-            onColorPick(color);
+            onColorPick(color, { x, y });
             e.stopPropagation();
         } else {
             onSelectCrop(null);
@@ -164,6 +171,17 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
         { position: 'bottom-0 right-0 translate-x-1/2 translate-y-1/2', cursor: 'cursor-se-resize', type: 'se' },
     ];
     
+    // The mask is applied with CSS so the <img> keeps the original pixels for color picking.
+    const showMask = !!(image.mask && maskView?.enabled);
+    const maskStyle: React.CSSProperties | undefined = showMask ? {
+        maskImage: `url(${image.mask!.url})`,
+        WebkitMaskImage: `url(${image.mask!.url})`,
+        maskSize: '100% 100%',
+        WebkitMaskSize: '100% 100%',
+    } : undefined;
+
+    if (maskEditing) return <MaskEditor image={image} {...maskEditing} />;
+
     if (scaleX === 0 || scaleY === 0) return <div className="relative w-full max-w-4xl mx-auto"><div className="w-full aspect-video bg-gray-800 animate-pulse rounded-lg"></div></div>;
 
     return (
@@ -173,26 +191,54 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
             onClick={handleContainerClick}
             style={{ cursor: isPickingColor ? 'crosshair' : 'default' }}
         >
-            <img ref={imageRef} src={image.url} alt="Crop source" className="w-full h-auto block rounded-lg shadow-lg" draggable="false" />
-            {crops.map(crop => {
+            {showMask && <div className="absolute inset-0 rounded-lg" style={CHECKERBOARD} />}
+            <img ref={imageRef} src={image.url} alt="Crop source" className="relative w-full h-auto block rounded-lg shadow-lg" style={maskStyle} draggable="false" />
+            {showMask && maskView.split > 0 && (
+                <>
+                    {/* Original on the left of the divider, masked result on the right. */}
+                    <img src={image.url} alt="" aria-hidden="true" className="absolute inset-0 w-full h-full rounded-lg pointer-events-none" style={{ clipPath: `inset(0 ${100 - maskView.split}% 0 0)` }} draggable="false" />
+                    <div className="absolute top-0 bottom-0 w-0.5 bg-teal-400 pointer-events-none" style={{ left: `${maskView.split}%` }} />
+                </>
+            )}
+            {onionSkin?.enabled && images.length > 1 && (
+                <OnionSkinOverlay images={images} currentIndex={images.findIndex(img => img.id === image.id)} settings={onionSkin} width={image.width} height={image.height} />
+            )}
+            {seedPoints?.map((point, i) => (
+                <div
+                    key={i}
+                    className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-teal-500 shadow pointer-events-none"
+                    style={{ left: `${(point.x + 0.5) / image.width * 100}%`, top: `${(point.y + 0.5) / image.height * 100}%` }}
+                />
+            ))}
+            {crops.map((crop, index) => {
+                if (crop.hidden) return null;
                 const isSelected = crop.id === selectedCropId;
-                const displayCrop = {
+                const displayCrop: React.CSSProperties = {
                     left: crop.x / scaleX,
                     top: crop.y / scaleY,
                     width: crop.width / scaleX,
                     height: crop.height / scaleY,
+                    ...(crop.color && !isSelected && { borderColor: crop.color }),
                 };
 
                 return (
                     <div
                         key={crop.id}
-                        className={`absolute cursor-move transition-colors duration-200 ${isSelected ? 'border-2 border-solid border-sky-400 bg-black bg-opacity-30' : 'border border-dashed border-white/30 hover:border-white/60'}`}
+                        className={`absolute ${crop.locked ? 'cursor-pointer' : 'cursor-move'} transition-colors duration-200 ${isSelected ? 'border-2 border-solid border-sky-400 bg-black bg-opacity-30' : crop.color ? 'border-2 border-solid' : 'border border-dashed border-white/30 hover:border-white/60'}`}
                         style={displayCrop}
                         onMouseDown={(e) => handleInteractionStart(e, 'move', crop)}
                         onTouchStart={(e) => handleInteractionStart(e, 'move', crop)}
                         onClick={(e) => { e.stopPropagation(); onSelectCrop(crop.id); }}
                     >
-                        {isSelected && handles.map(h => (
+                        {(isSelected || crop.color || crop.name) && (
+                            <span
+                                className="absolute left-0 bottom-full mb-0.5 max-w-[12rem] truncate px-1.5 rounded text-xs font-semibold text-gray-900 pointer-events-none"
+                                style={{ backgroundColor: crop.color ?? '#38bdf8' }}
+                            >
+                                {crop.locked && <LockIcon className="inline w-3 h-3 mr-1 -mt-0.5" />}{getCropName(crop, index)}
+                            </span>
+                        )}
+                        {isSelected && !crop.locked && handles.map(h => (
                             <div
                                 key={h.type}
                                 className={`absolute w-3 h-3 bg-sky-400 rounded-full ${h.position} ${h.cursor}`}
@@ -203,6 +249,13 @@ export const CropEditor: React.FC<CropEditorProps> = ({ image, crops, selectedCr
                     </div>
                 )
             })}
+            {proposedCrops?.map((box, i) => (
+                <div
+                    key={i}
+                    className="absolute border-2 border-dashed border-amber-400 bg-amber-400/10 pointer-events-none"
+                    style={{ left: box.x / scaleX, top: box.y / scaleY, width: box.width / scaleX, height: box.height / scaleY }}
+                />
+            ))}
         </div>
     );
 };
@@ -1,6 +1,8 @@
 
 import React from 'react';
 import type { ImageFile, CropRect } from '../types';
+import { getCropName } from '../utils/exportPlan';
+import { EyeIcon, EyeOffIcon, LockIcon } from './Icons';
 
 const SingleCropPreview: React.FC<{
     image: ImageFile;
@@ -8,7 +10,14 @@ const SingleCropPreview: React.FC<{
     isSelected: boolean;
     onClick: () => void;
     index: number;
-}> = ({ image, crop, isSelected, onClick, index }) => {
+    onUpdate: (changes: Partial<CropRect>, label: string) => void;
+    // Drag-to-reorder: the card being dragged and the card it is over.
+    onDragStart: () => void;
+    onDragOver: () => void;
+    onDrop: () => void;
+    onDragEnd: () => void;
+    isDropTarget: boolean;
+}> = ({ image, crop, isSelected, onClick, index, onUpdate, onDragStart, onDragOver, onDrop, onDragEnd, isDropTarget }) => {
     const containerRef = React.useRef<HTMLDivElement>(null);
     const [containerSize, setContainerSize] = React.useState({ width: 128, height: 128 }); // 8rem
 
@@ -25,7 +34,7 @@ const SingleCropPreview: React.FC<{
         return (
             <div className="flex-shrink-0 w-32 h-32 bg-gray-800 border-2 border-gray-700 rounded-lg overflow-hidden relative" ref={containerRef} aria-label={`Crop area ${index + 1}`}>
                  <div className="absolute inset-0 bg-black bg-opacity-50 flex flex-col items-center justify-center p-2">
-                    <p className="text-sm text-center text-white">Crop {index + 1}</p>
+                    <p className="text-sm text-center text-white">{getCropName(crop, index)}</p>
                     <p className="text-xs text-center text-red-400">Invalid</p>
                 </div>
             </div>
@@ -51,22 +60,61 @@ const SingleCropPreview: React.FC<{
         height: `${scaledHeight}px`,
         transform: `translate(${translateX}px, ${translateY}px)`,
         maxWidth: 'none',
+        // The full-size image and mask, since a small crop of the thumbnail preview would be blurry.
+        ...(image.mask && {
+            maskImage: `url(${image.mask.url})`,
+            WebkitMaskImage: `url(${image.mask.url})`,
+            maskSize: '100% 100%',
+            WebkitMaskSize: '100% 100%',
+        }),
     };
 
     const selectionClasses = isSelected
         ? 'ring-4 ring-offset-2 ring-offset-gray-900 ring-sky-400'
-        : 'border-2 border-gray-700 hover:border-sky-500';
+        : isDropTarget ? 'border-2 border-amber-400' : 'border-2 border-gray-700 hover:border-sky-500';
+    const name = getCropName(crop, index);
 
     return (
         <div
-            className={`flex-shrink-0 w-32 h-32 bg-gray-800 rounded-lg overflow-hidden relative cursor-pointer transition-all duration-200 ${selectionClasses}`}
+            className={`flex-shrink-0 w-32 h-32 bg-gray-800 rounded-lg overflow-hidden relative cursor-pointer transition-all duration-200 ${selectionClasses} ${crop.hidden ? 'opacity-50' : ''}`}
             ref={containerRef}
-            aria-label={`Select crop area ${index + 1}`}
+            aria-label={`Select crop area ${name}`}
             onClick={onClick}
+            draggable
+            onDragStart={e => {
+                e.dataTransfer.effectAllowed = 'move';
+                onDragStart();
+            }}
+            onDragOver={e => {
+                e.preventDefault();
+                onDragOver();
+            }}
+            onDrop={e => {
+                e.preventDefault();
+                onDrop();
+            }}
+            onDragEnd={onDragEnd}
         >
-            <img src={image.url} alt={`Crop ${index + 1}`} className="absolute" style={imgStyle} />
+            <img src={image.url} alt={name} className="absolute" style={imgStyle} draggable="false" />
              <div className="absolute inset-0 bg-black bg-opacity-40 flex items-center justify-center p-2 pointer-events-none">
-                <p className="text-sm font-bold text-center text-white">Crop {index + 1}</p>
+                <p className="text-sm font-bold text-center text-white break-all">{name}</p>
+            </div>
+            {crop.color && <span className="absolute top-1.5 left-1.5 w-3 h-3 rounded-full border border-white/70" style={{ backgroundColor: crop.color }} />}
+            <div className="absolute top-1 right-1 flex gap-1">
+                <button
+                    onClick={e => { e.stopPropagation(); onUpdate({ locked: !crop.locked }, crop.locked ? 'Unlock crop' : 'Lock crop'); }}
+                    className={`p-1 rounded ${crop.locked ? 'bg-amber-600 text-white' : 'bg-black/50 text-gray-300 hover:text-white'}`}
+                    aria-label={crop.locked ? `Unlock ${name}` : `Lock ${name}`}
+                >
+                    <LockIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                    onClick={e => { e.stopPropagation(); onUpdate({ hidden: !crop.hidden }, crop.hidden ? 'Show crop' : 'Hide crop'); }}
+                    className={`p-1 rounded ${crop.hidden ? 'bg-amber-600 text-white' : 'bg-black/50 text-gray-300 hover:text-white'}`}
+                    aria-label={crop.hidden ? `Show ${name}` : `Hide ${name}`}
+                >
+                    {crop.hidden ? <EyeOffIcon className="w-3.5 h-3.5" /> : <EyeIcon className="w-3.5 h-3.5" />}
+                </button>
             </div>
         </div>
     );
@@ -78,7 +126,13 @@ export const CropPreviews: React.FC<{
     crops: CropRect[];
     selectedCropId: string | null;
     onSelectCrop: (id: string) => void;
-}> = ({ image, crops, selectedCropId, onSelectCrop }) => {
+    onUpdateCrop: (id: string, changes: Partial<CropRect>, label: string) => void;
+    // Moves the crop at `from` to position `to`.
+    onReorderCrops: (from: number, to: number) => void;
+}> = ({ image, crops, selectedCropId, onSelectCrop, onUpdateCrop, onReorderCrops }) => {
+    const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+    const [dropIndex, setDropIndex] = React.useState<number | null>(null);
+
     if (crops.length <= 1) {
         return null;
     }
@@ -86,6 +140,7 @@ export const CropPreviews: React.FC<{
     return (
         <section>
             <h2 className="text-xl font-semibold mb-3 text-gray-300">Crop Previews ({crops.length})</h2>
+            <p className="text-sm text-gray-400 mb-3">Drag the previews to change the crop order used for numbering and export.</p>
             <div className="flex gap-4 pb-4 overflow-x-auto pr-4 md:pr-8">
                 {crops.map((crop, index) => (
                     <SingleCropPreview
@@ -95,6 +150,19 @@ export const CropPreviews: React.FC<{
                         isSelected={crop.id === selectedCropId}
                         onClick={() => onSelectCrop(crop.id)}
                         index={index}
+                        onUpdate={(changes: Partial<CropRect>, label: string) => onUpdateCrop(crop.id, changes, label)}
+                        onDragStart={() => setDragIndex(index)}
+                        onDragOver={() => setDropIndex(index)}
+                        onDrop={() => {
+                            if (dragIndex !== null) onReorderCrops(dragIndex, index);
+                            setDragIndex(null);
+                            setDropIndex(null);
+                        }}
+                        onDragEnd={() => {
+                            setDragIndex(null);
+                            setDropIndex(null);
+                        }}
+                        isDropTarget={dragIndex !== null && dropIndex === index && dragIndex !== index}
                     />
                 ))}
             </div>
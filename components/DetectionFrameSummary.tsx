@@ -0,0 +1,38 @@
+import React from 'react';
+import type { DetectionResult, ImageFile } from '../types';
+
+interface DetectionFrameSummaryProps {
+    frames: NonNullable<DetectionResult['frames']>;
+    images: ImageFile[];
+    objectCount: number;
+    selectedImageId: string;
+    onSelectImage: (id: string) => void;
+}
+
+// How many of the tracked objects were found in each frame; frames missing some are highlighted.
+export const DetectionFrameSummary: React.FC<DetectionFrameSummaryProps> = ({ frames, images, objectCount, selectedImageId, onSelectImage }) => {
+    const incomplete = frames.filter(frame => frame.matched < objectCount).length;
+    return (
+        <div className="flex flex-col gap-2">
+            <p className="text-xs text-gray-400">
+                {incomplete === 0 ? `All ${objectCount} objects were found in every frame.` : `${incomplete} of ${frames.length} frames are missing objects.`}
+            </p>
+            <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                {frames.map((frame, i) => {
+                    const image = images.find(img => img.id === frame.imageId);
+                    const isComplete = frame.matched === objectCount;
+                    return (
+                        <button
+                            key={frame.imageId}
+                            onClick={() => onSelectImage(frame.imageId)}
+                            title={image?.name}
+                            className={`text-xs font-mono px-2 py-0.5 rounded border ${frame.imageId === selectedImageId ? 'border-sky-400' : 'border-transparent'} ${isComplete ? 'bg-gray-700 text-gray-300' : 'bg-amber-900/60 text-amber-300'}`}
+                        >
+                            {i + 1}: {frame.matched}/{objectCount}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
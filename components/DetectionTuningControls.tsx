@@ -0,0 +1,53 @@
+import React from 'react';
+import type { AutoDetectOptions } from '../types';
+
+interface DetectionTuningControlsProps {
+    options: AutoDetectOptions;
+    onChange: (options: AutoDetectOptions) => void;
+}
+
+export const SmallNumberInput: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number; title?: string }> = ({ label, value, onChange, min = 0, max, title }) => (
+    <div className="w-24" title={title}>
+        <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+        <input
+            type="number"
+            min={min}
+            max={max}
+            value={value}
+            onChange={e => {
+                const v = parseInt(e.target.value, 10);
+                if (!isNaN(v)) onChange(Math.max(min, max === undefined ? v : Math.min(max, v)));
+            }}
+            className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+        />
+    </div>
+);
+
+export const DetectionTuningControls: React.FC<DetectionTuningControlsProps> = ({ options, onChange }) => {
+    const update = (changes: Partial<AutoDetectOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-end gap-3">
+            {options.mode !== 'color' && (
+                <SmallNumberInput label="Alpha below" value={options.alphaThreshold} max={255} onChange={alphaThreshold => update({ alphaThreshold })} title="Pixels more transparent than this are background" />
+            )}
+            {options.mode !== 'transparent' && (
+                <SmallNumberInput label="Tolerance" value={options.colorTolerance} max={442} onChange={colorTolerance => update({ colorTolerance })} title="How far (RGB) a pixel may be from the background color" />
+            )}
+            <SmallNumberInput label="Min W" value={options.minWidth} onChange={minWidth => update({ minWidth })} />
+            <SmallNumberInput label="Min H" value={options.minHeight} onChange={minHeight => update({ minHeight })} />
+            <SmallNumberInput label="Min area" value={options.minArea} onChange={minArea => update({ minArea })} title="Fewest foreground pixels an object needs" />
+            <SmallNumberInput label="Padding" value={options.padding} onChange={padding => update({ padding })} title="Space added around each box" />
+            <SmallNumberInput label="Merge within" value={options.mergeDistance} onChange={mergeDistance => update({ mergeDistance })} title="Boxes closer than this many pixels become one; 0 keeps them apart" />
+            <label className="flex items-center gap-2 cursor-pointer text-sm pb-1.5" title="Also join pixels that only touch at a corner">
+                <input
+                    type="checkbox"
+                    checked={options.connectivity === 8}
+                    onChange={e => update({ connectivity: e.target.checked ? 8 : 4 })}
+                    className="form-checkbox bg-gray-700 border-gray-600 text-indigo-500 rounded focus:ring-indigo-500"
+                />
+                Diagonal neighbours
+            </label>
+        </div>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { ExportReport } from '../utils/exportPlan';
+
+interface ExportResultsProps {
+    report: ExportReport;
+    onResume: () => void;
+    onDismiss: () => void;
+    isDisabled: boolean;
+}
+
+export const ExportResults: React.FC<ExportResultsProps> = ({ report, onResume, onDismiss, isDisabled }) => {
+    const total = report.entries.length;
+    const exported = report.blobs.filter(Boolean).length;
+    const remaining = total - exported - report.failures.length;
+
+    return (
+        <div className="bg-gray-800/50 p-4 rounded-lg border border-amber-700/60 flex flex-col gap-3">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h3 className="font-semibold text-gray-300">{report.cancelled ? 'Export Cancelled' : 'Export Finished With Errors'}</h3>
+                    <p className="text-sm text-gray-400">
+                        {exported} of {total} files exported
+                        {report.failures.length > 0 && <>, <span className="text-red-400">{report.failures.length} failed</span></>}
+                        {report.cancelled && remaining > 0 && <>, {remaining} not started</>}.
+                        {!report.cancelled && ' The failures are listed in errors.txt inside the ZIP.'}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onResume}
+                        disabled={isDisabled}
+                        className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+                    >
+                        {report.cancelled ? 'Resume Export' : `Retry ${report.failures.length} Failed`}
+                    </button>
+                    <button onClick={onDismiss} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200">Dismiss</button>
+                </div>
+            </div>
+            {report.failures.length > 0 && (
+                <ul className="bg-gray-900 rounded-md p-2 max-h-48 overflow-y-auto text-xs font-mono">
+                    {report.failures.map(({ entry, message }) => (
+                        <li key={entry.path} className="py-0.5">
+                            <span className="text-gray-200">{entry.path}</span>
+                            <span className="text-red-400"> — {message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
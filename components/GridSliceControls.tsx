@@ -0,0 +1,79 @@
+import React from 'react';
+import type { GridSliceOptions } from '../types';
+import { SmallNumberInput } from './DetectionTuningControls';
+import { GridIcon, LoaderIcon, MagicWandIcon } from './Icons';
+
+interface GridSliceControlsProps {
+    options: GridSliceOptions;
+    onChange: (options: GridSliceOptions) => void;
+    onSlice: () => void;
+    // Reverse-engineers the options from the current image.
+    onGuess: () => void;
+    isSlicing: boolean;
+    isDisabled: boolean;
+}
+
+export const GridSliceControls: React.FC<GridSliceControlsProps> = ({ options, onChange, onSlice, onGuess, isSlicing, isDisabled }) => {
+    const update = (changes: Partial<GridSliceOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+            <h3 className="font-semibold text-gray-300 mb-3">Grid Slicing</h3>
+            <p className="text-sm text-gray-400 mb-4">Cut uniform sprite sheets and contact sheets into one crop per cell. The grid is previewed on the image before it replaces your crops.</p>
+            <div className="flex flex-wrap items-center gap-6 mb-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" name="grid-by" checked={options.by === 'count'} onChange={() => update({ by: 'count' })} className="form-radio bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"/>
+                    Rows &amp; columns
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" name="grid-by" checked={options.by === 'size'} onChange={() => update({ by: 'size' })} className="form-radio bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"/>
+                    Cell size
+                </label>
+            </div>
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+                {options.by === 'count' ? (
+                    <>
+                        <SmallNumberInput label="Rows" value={options.rows} min={1} onChange={rows => update({ rows })} />
+                        <SmallNumberInput label="Columns" value={options.columns} min={1} onChange={columns => update({ columns })} />
+                    </>
+                ) : (
+                    <>
+                        <SmallNumberInput label="Cell W" value={options.cellWidth} min={1} onChange={cellWidth => update({ cellWidth })} />
+                        <SmallNumberInput label="Cell H" value={options.cellHeight} min={1} onChange={cellHeight => update({ cellHeight })} />
+                    </>
+                )}
+                <SmallNumberInput label="Margin" value={options.margin} onChange={margin => update({ margin })} title="Border left out on every side of the image" />
+                <SmallNumberInput label="Spacing X" value={options.spacingX} onChange={spacingX => update({ spacingX })} title="Gap between columns" />
+                <SmallNumberInput label="Spacing Y" value={options.spacingY} onChange={spacingY => update({ spacingY })} title="Gap between rows" />
+                <SmallNumberInput label="Offset X" value={options.offsetX} onChange={offsetX => update({ offsetX })} />
+                <SmallNumberInput label="Offset Y" value={options.offsetY} onChange={offsetY => update({ offsetY })} />
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer text-sm mb-4" title="Uses the background set under Object Detection">
+                <input
+                    type="checkbox"
+                    checked={options.skipEmpty}
+                    onChange={e => update({ skipEmpty: e.target.checked })}
+                    className="form-checkbox bg-gray-700 border-gray-600 text-indigo-500 rounded focus:ring-indigo-500"
+                />
+                Skip empty cells
+            </label>
+            <div className="flex gap-4">
+                <button
+                    onClick={onGuess}
+                    disabled={isDisabled}
+                    className="flex-1 flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200"
+                    title="Find the grid of an existing sprite sheet from the empty rows and columns between sprites"
+                >
+                    <MagicWandIcon /> Guess Grid
+                </button>
+                <button
+                    onClick={onSlice}
+                    disabled={isDisabled}
+                    className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200"
+                >
+                    {isSlicing ? (<><LoaderIcon className="animate-spin" /> Slicing...</>) : (<><GridIcon /> Slice Grid</>)}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+
+interface HistoryPanelProps {
+    // Labels of the commands that can be undone, oldest first.
+    past: string[];
+    // Labels of the commands that can be redone, next one first.
+    future: string[];
+    onUndo: (steps: number) => void;
+    onRedo: (steps: number) => void;
+}
+
+// Lists the undoable steps; clicking one undoes or redoes back to the state right after it.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ past, future, onUndo, onRedo }) => {
+    const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+    const modifier = isMac ? '⌘' : 'Ctrl+';
+
+    return (
+        <details className="w-full max-w-4xl mx-auto bg-gray-800/50 backdrop-blur-sm px-4 py-3 rounded-lg border border-gray-700">
+            <summary className="flex items-center gap-3 cursor-pointer select-none">
+                <span className="font-semibold text-gray-300">History</span>
+                <span className="text-sm text-gray-400">{past.length} {past.length === 1 ? 'step' : 'steps'}</span>
+                <div className="flex gap-2 ml-auto">
+                    <button
+                        onClick={e => { e.preventDefault(); onUndo(1); }}
+                        disabled={past.length === 0}
+                        title={`Undo (${modifier}Z)`}
+                        className="text-sm bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-1 px-3 rounded transition-colors duration-200"
+                    >
+                        Undo
+                    </button>
+                    <button
+                        onClick={e => { e.preventDefault(); onRedo(1); }}
+                        disabled={future.length === 0}
+                        title={`Redo (${modifier}Shift+Z)`}
+                        className="text-sm bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-1 px-3 rounded transition-colors duration-200"
+                    >
+                        Redo
+                    </button>
+                </div>
+            </summary>
+            <ol className="mt-3 max-h-48 overflow-y-auto text-sm">
+                <li>
+                    <button onClick={() => onUndo(past.length)} className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700 ${past.length === 0 ? 'bg-gray-700 text-white font-semibold' : 'text-gray-300'}`}>
+                        Start
+                    </button>
+                </li>
+                {past.map((label, i) => (
+                    <li key={`past-${i}`}>
+                        <button onClick={() => onUndo(past.length - 1 - i)} className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700 ${i === past.length - 1 ? 'bg-gray-700 text-white font-semibold' : 'text-gray-300'}`}>
+                            {label}
+                        </button>
+                    </li>
+                ))}
+                {future.map((label, i) => (
+                    <li key={`future-${i}`}>
+                        <button onClick={() => onRedo(i + 1)} className="w-full text-left px-2 py-1 rounded hover:bg-gray-700 text-gray-500 italic">
+                            {label}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </details>
+    );
+};
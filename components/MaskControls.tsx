@@ -0,0 +1,41 @@
+import React from 'react';
+import type { MaskViewSettings } from '../types';
+
+interface MaskControlsProps {
+    settings: MaskViewSettings;
+    onChange: (settings: MaskViewSettings) => void;
+    maskedCount: number;
+    imageCount: number;
+    hasMask: boolean;
+    isEditing: boolean;
+    onToggleEditing: () => void;
+}
+
+export const MaskControls: React.FC<MaskControlsProps> = ({ settings, onChange, maskedCount, imageCount, hasMask, isEditing, onToggleEditing }) => (
+    <div className="w-full max-w-4xl mx-auto bg-gray-800/50 backdrop-blur-sm px-4 py-3 rounded-lg border border-gray-700 flex flex-wrap items-center gap-x-8 gap-y-3">
+        <label className="flex items-center gap-2 cursor-pointer font-semibold text-gray-300">
+            <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="form-checkbox bg-gray-700 border-gray-600 text-teal-500 rounded focus:ring-teal-500" />
+            Background Removal
+        </label>
+        <div className="flex items-center gap-3 flex-1 min-w-[220px]">
+            <span className="text-sm font-medium text-gray-400">Compare</span>
+            <input
+                type="range"
+                min="0"
+                max="100"
+                value={settings.split}
+                onChange={e => onChange({ ...settings, split: parseInt(e.target.value, 10) })}
+                disabled={!settings.enabled || !hasMask}
+                className="flex-1 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                aria-label="Before/after divider position"
+            />
+        </div>
+        <span className="text-sm text-gray-400">{hasMask ? `${maskedCount} of ${imageCount} images masked` : 'No mask on this image'}</span>
+        <button
+            onClick={onToggleEditing}
+            className={`text-sm font-semibold py-1.5 px-3 rounded-md transition-colors duration-200 ${isEditing ? 'bg-teal-600 hover:bg-teal-700 text-white' : 'bg-gray-600 hover:bg-gray-500 text-white'}`}
+        >
+            {isEditing ? 'Stop Editing' : 'Edit Mask'}
+        </button>
+    </div>
+);
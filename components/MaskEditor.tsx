@@ -0,0 +1,245 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { ImageFile, ImageMask, MaskBrushSettings, MaskTool } from '../types';
+import { readMaskForEditing, createMaskCanvas } from '../utils/mask';
+import { paintDab, paintSegment, unionRect, applyMagicWand, type DirtyRect } from '../utils/maskEditing';
+import { runInImagePool } from '../utils/workerPool';
+import { createImageMask, PREVIEW_SIZE } from '../utils/imageStore';
+import { LoaderIcon } from './Icons';
+
+interface MaskEditorProps {
+    image: ImageFile;
+    brush: MaskBrushSettings;
+    onBrushChange: (brush: MaskBrushSettings) => void;
+    onMaskChange: (imageId: string, mask: ImageMask) => void;
+    onClose: () => void;
+}
+
+interface EditState {
+    imageId: string;
+    source: HTMLImageElement;
+    pixels: Uint8ClampedArray;
+    coverage: Uint8ClampedArray;
+    maskCanvas: HTMLCanvasElement;
+}
+
+const TOOLS: { value: MaskTool; label: string; title: string }[] = [
+    { value: 'keep', label: 'Keep', title: 'Paint back parts that were removed' },
+    { value: 'erase', label: 'Erase', title: 'Paint away parts that should be removed' },
+    { value: 'wandAdd', label: 'Wand +', title: 'Keep the similar-colored area around the clicked point' },
+    { value: 'wandSubtract', label: 'Wand −', title: 'Remove the similar-colored area around the clicked point' },
+];
+
+const ZOOM_LEVELS = [1, 2, 4, 8];
+
+const CHECKERBOARD: React.CSSProperties = {
+    backgroundColor: '#d1d5db',
+    backgroundImage: 'conic-gradient(#9ca3af 25%, transparent 0 50%, #9ca3af 0 75%, transparent 0)',
+    backgroundSize: '16px 16px',
+};
+
+const isWand = (tool: MaskTool) => tool === 'wandAdd' || tool === 'wandSubtract';
+
+// Brush and magic-wand touch-up of an image's background-removal mask. Every finished stroke is
+// encoded in the worker pool and saved to the image, so the edits show up in previews and exports.
+export const MaskEditor: React.FC<MaskEditorProps> = ({ image, brush, onBrushChange, onMaskChange, onClose }) => {
+    const [zoom, setZoom] = useState(1);
+    const [isReady, setIsReady] = useState(false);
+    const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const stateRef = useRef<EditState | null>(null);
+    const strokeRef = useRef<{ x: number; y: number } | null>(null);
+    const dirtyRef = useRef<DirtyRect | null>(null);
+    const frameRef = useRef(0);
+    // URL of the last mask this editor saved, so saving it doesn't reload the editor mid-stroke.
+    const savedMaskUrl = useRef<string | null>(null);
+    const commitId = useRef(0);
+
+    const draw = useCallback(() => {
+        frameRef.current = 0;
+        const state = stateRef.current;
+        const canvas = canvasRef.current;
+        if (!state || !canvas) return;
+        const dirty = dirtyRef.current;
+        dirtyRef.current = null;
+        if (dirty) {
+            const maskCtx = state.maskCanvas.getContext('2d');
+            if (!maskCtx) return;
+            const region = maskCtx.createImageData(dirty.width, dirty.height);
+            for (let y = 0; y < dirty.height; y++) {
+                for (let x = 0; x < dirty.width; x++) {
+                    region.data[(y * dirty.width + x) * 4 + 3] = state.coverage[(dirty.y + y) * image.width + dirty.x + x];
+                }
+            }
+            maskCtx.putImageData(region, dirty.x, dirty.y);
+        }
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.drawImage(state.source, 0, 0);
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(state.maskCanvas, 0, 0);
+        ctx.globalCompositeOperation = 'source-over';
+    }, [image.width]);
+
+    const scheduleDraw = useCallback((dirty: DirtyRect | null) => {
+        if (dirty) dirtyRef.current = dirtyRef.current ? unionRect(dirtyRef.current, dirty) : dirty;
+        if (!frameRef.current) frameRef.current = requestAnimationFrame(draw);
+    }, [draw]);
+
+    useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
+
+    useEffect(() => {
+        if (stateRef.current?.imageId === image.id && (image.mask?.url ?? null) === savedMaskUrl.current) return;
+        let cancelled = false;
+        setIsReady(false);
+        readMaskForEditing(image).then(({ source, pixels, coverage }) => {
+            if (cancelled) return;
+            const maskCanvas = createMaskCanvas(coverage, image.width, image.height) as HTMLCanvasElement;
+            stateRef.current = { imageId: image.id, source, pixels, coverage, maskCanvas };
+            savedMaskUrl.current = image.mask?.url ?? null;
+            setIsReady(true);
+            scheduleDraw(null);
+        }).catch(error => {
+            console.error("Failed to load the mask for editing:", error);
+            alert("Could not load this image's mask for editing.");
+        });
+        return () => { cancelled = true; };
+    }, [image, scheduleDraw]);
+
+    // Saves the current coverage; only the latest save is kept if several are in flight.
+    const commit = () => {
+        const state = stateRef.current;
+        if (!state) return;
+        const id = ++commitId.current;
+        const despill = image.mask?.despill ?? null;
+        runInImagePool({ type: 'encodeMask', url: image.url, coverage: state.coverage.slice(), despill, previewSize: PREVIEW_SIZE })
+            .then(result => {
+                if (id !== commitId.current) return;
+                const mask = createImageMask(result.mask, result.preview, despill, true);
+                savedMaskUrl.current = mask.url;
+                onMaskChange(state.imageId, mask);
+            })
+            .catch(error => {
+                console.error("Failed to save the mask:", error);
+                alert("Could not save the mask edit.");
+            });
+    };
+
+    const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * image.width / rect.width,
+            y: (e.clientY - rect.top) * image.height / rect.height,
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const state = stateRef.current;
+        if (!state || state.imageId !== image.id || e.button !== 0) return;
+        e.preventDefault();
+        const point = toImagePoint(e);
+        if (isWand(brush.tool)) {
+            if (applyMagicWand(state.coverage, state.pixels, image.width, image.height, Math.floor(point.x), Math.floor(point.y), brush)) {
+                scheduleDraw({ x: 0, y: 0, width: image.width, height: image.height });
+                commit();
+            }
+            return;
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        strokeRef.current = point;
+        scheduleDraw(paintDab(state.coverage, image.width, image.height, point.x, point.y, brush));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const point = toImagePoint(e);
+        setCursor(point);
+        const state = stateRef.current;
+        if (!state || !strokeRef.current) return;
+        scheduleDraw(paintSegment(state.coverage, image.width, image.height, strokeRef.current, point, brush));
+        strokeRef.current = point;
+    };
+
+    const handlePointerUp = () => {
+        if (!strokeRef.current) return;
+        strokeRef.current = null;
+        commit();
+    };
+
+    const update = (changes: Partial<MaskBrushSettings>) => onBrushChange({ ...brush, ...changes });
+    const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+
+    return (
+        <div className="w-full max-w-4xl mx-auto flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3 bg-gray-800/50 px-4 py-3 rounded-lg border border-gray-700">
+                <div className="flex rounded-md overflow-hidden border border-gray-600">
+                    {TOOLS.map(tool => (
+                        <button
+                            key={tool.value}
+                            onClick={() => update({ tool: tool.value })}
+                            title={tool.title}
+                            className={`px-3 py-1.5 text-sm font-semibold ${brush.tool === tool.value ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {tool.label}
+                        </button>
+                    ))}
+                </div>
+                {isWand(brush.tool) ? (
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        Tolerance
+                        <input type="range" min="1" max="150" value={brush.tolerance} onChange={e => update({ tolerance: parseInt(e.target.value, 10) })} className="w-28 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                        <span className="font-mono text-gray-300 w-8">{brush.tolerance}</span>
+                    </label>
+                ) : (
+                    <>
+                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                            Size
+                            <input type="range" min="1" max="200" value={brush.size} onChange={e => update({ size: parseInt(e.target.value, 10) })} className="w-28 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            <span className="font-mono text-gray-300 w-10">{brush.size}px</span>
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                            Hardness
+                            <input type="range" min="0" max="100" value={Math.round(brush.hardness * 100)} onChange={e => update({ hardness: parseInt(e.target.value, 10) / 100 })} className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            <span className="font-mono text-gray-300 w-10">{Math.round(brush.hardness * 100)}%</span>
+                        </label>
+                    </>
+                )}
+                <div className="flex items-center gap-1 text-sm text-gray-400">
+                    <button onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} className="w-7 h-7 bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50" aria-label="Zoom out">−</button>
+                    <span className="font-mono text-gray-300 w-10 text-center">{zoom * 100}%</span>
+                    <button onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} className="w-7 h-7 bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50" aria-label="Zoom in">+</button>
+                </div>
+                <button onClick={onClose} className="ml-auto bg-teal-600 hover:bg-teal-700 text-white text-sm font-semibold py-1.5 px-4 rounded-md">Done</button>
+            </div>
+            <div className="relative max-h-[70vh] overflow-auto rounded-lg shadow-lg">
+                <div className="relative touch-none select-none" style={{ ...CHECKERBOARD, width: `${zoom * 100}%` }}>
+                    {/* The original shows through faintly where it has been removed. */}
+                    <img src={image.url} alt="" aria-hidden="true" className="block w-full h-auto opacity-25" draggable="false" />
+                    <canvas
+                        ref={canvasRef}
+                        width={image.width}
+                        height={image.height}
+                        className="absolute inset-0 w-full h-full"
+                        style={{ cursor: isWand(brush.tool) ? 'crosshair' : 'none', imageRendering: zoom > 1 ? 'pixelated' : 'auto' }}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        onPointerLeave={() => setCursor(null)}
+                    />
+                    {cursor && !isWand(brush.tool) && (
+                        <div
+                            className="absolute rounded-full border border-white mix-blend-difference pointer-events-none -translate-x-1/2 -translate-y-1/2"
+                            style={{ left: `${cursor.x / image.width * 100}%`, top: `${cursor.y / image.height * 100}%`, width: `${brush.size / image.width * 100}%`, aspectRatio: '1' }}
+                        />
+                    )}
+                    {!isReady && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-gray-900/50">
+                            <LoaderIcon className="animate-spin" />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { OnionSkinSettings } from '../types';
+
+interface OnionSkinControlsProps {
+    settings: OnionSkinSettings;
+    onChange: (settings: OnionSkinSettings) => void;
+}
+
+const DirectionControls: React.FC<{
+    label: string;
+    frames: number;
+    opacity: number;
+    tint: string;
+    disabled: boolean;
+    onChange: (changes: { frames?: number; opacity?: number; tint?: string }) => void;
+}> = ({ label, frames, opacity, tint, disabled, onChange }) => (
+    <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-400 w-12">{label}</span>
+        <input
+            type="number"
+            min="0"
+            max="10"
+            value={frames}
+            onChange={e => { const v = parseInt(e.target.value, 10); if (!isNaN(v)) onChange({ frames: Math.max(0, Math.min(10, v)) }); }}
+            disabled={disabled}
+            className="w-16 bg-gray-700 border-gray-600 text-white rounded-md p-1 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50"
+            aria-label={`${label} frame count`}
+        />
+        <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(opacity * 100)}
+            onChange={e => onChange({ opacity: parseInt(e.target.value, 10) / 100 })}
+            disabled={disabled}
+            className="w-28 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+            aria-label={`${label} opacity`}
+        />
+        <span className="text-sm font-mono text-gray-300 bg-gray-700 px-2 py-0.5 rounded w-12 text-center">{Math.round(opacity * 100)}%</span>
+        <input
+            type="color"
+            value={tint}
+            onChange={e => onChange({ tint: e.target.value })}
+            disabled={disabled}
+            className="w-8 h-8 rounded border-none bg-gray-700 cursor-pointer disabled:opacity-50"
+            aria-label={`${label} tint`}
+        />
+    </div>
+);
+
+export const OnionSkinControls: React.FC<OnionSkinControlsProps> = ({ settings, onChange }) => (
+    <div className="w-full max-w-4xl mx-auto bg-gray-800/50 backdrop-blur-sm px-4 py-3 rounded-lg border border-gray-700 flex flex-wrap items-center gap-x-8 gap-y-3">
+        <label className="flex items-center gap-2 cursor-pointer font-semibold text-gray-300">
+            <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500" />
+            Onion Skin
+        </label>
+        <DirectionControls
+            label="Before"
+            frames={settings.framesBefore}
+            opacity={settings.beforeOpacity}
+            tint={settings.beforeTint}
+            disabled={!settings.enabled}
+            onChange={({ frames, opacity, tint }) => onChange({
+                ...settings,
+                framesBefore: frames ?? settings.framesBefore,
+                beforeOpacity: opacity ?? settings.beforeOpacity,
+                beforeTint: tint ?? settings.beforeTint,
+            })}
+        />
+        <DirectionControls
+            label="After"
+            frames={settings.framesAfter}
+            opacity={settings.afterOpacity}
+            tint={settings.afterTint}
+            disabled={!settings.enabled}
+            onChange={({ frames, opacity, tint }) => onChange({
+                ...settings,
+                framesAfter: frames ?? settings.framesAfter,
+                afterOpacity: opacity ?? settings.afterOpacity,
+                afterTint: tint ?? settings.afterTint,
+            })}
+        />
+    </div>
+);
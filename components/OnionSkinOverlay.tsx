@@ -0,0 +1,85 @@
+import React, { useRef, useEffect, useState } from 'react';
+import type { ImageFile, OnionSkinSettings } from '../types';
+import { loadImage } from '../utils/image';
+
+interface OnionSkinOverlayProps {
+    images: ImageFile[];
+    currentIndex: number;
+    settings: OnionSkinSettings;
+    width: number;
+    height: number;
+}
+
+const TINT_STRENGTH = 0.6;
+
+// Draws the neighbouring frames, tinted per direction, on a canvas laid over the editor image.
+export const OnionSkinOverlay: React.FC<OnionSkinOverlayProps> = ({ images, currentIndex, settings, width, height }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const cacheRef = useRef(new Map<string, HTMLImageElement>());
+    const [loadedCount, setLoadedCount] = useState(0);
+
+    const layers: { image: ImageFile; distance: number; opacity: number; tint: string }[] = [];
+    for (let d = settings.framesBefore; d >= 1; d--) {
+        const image = images[currentIndex - d];
+        if (image) layers.push({ image, distance: d, opacity: settings.beforeOpacity * (1 - (d - 1) / settings.framesBefore), tint: settings.beforeTint });
+    }
+    for (let d = settings.framesAfter; d >= 1; d--) {
+        const image = images[currentIndex + d];
+        if (image) layers.push({ image, distance: d, opacity: settings.afterOpacity * (1 - (d - 1) / settings.framesAfter), tint: settings.afterTint });
+    }
+    const layerKey = layers.map(l => `${l.image.id}:${l.opacity}:${l.tint}`).join('|');
+
+    useEffect(() => {
+        let isCancelled = false;
+        const missing = layers.filter(l => !cacheRef.current.has(l.image.url));
+        Promise.all(missing.map(l => loadImage(l.image.url).then(img => { cacheRef.current.set(l.image.url, img); }).catch(error => {
+            console.error("Failed to load onion skin frame:", error);
+        }))).then(() => {
+            if (!isCancelled && missing.length > 0) setLoadedCount(c => c + 1);
+        });
+        return () => { isCancelled = true; };
+    }, [layerKey, images]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        canvas.width = width;
+        canvas.height = height;
+        ctx.clearRect(0, 0, width, height);
+
+        const tinted = document.createElement('canvas');
+        tinted.width = width;
+        tinted.height = height;
+        const tintCtx = tinted.getContext('2d');
+        if (!tintCtx) return;
+
+        // Farthest frames first so the nearest ones end up on top.
+        [...layers].sort((a, b) => b.distance - a.distance).forEach(layer => {
+            const img = cacheRef.current.get(layer.image.url);
+            if (!img || layer.opacity <= 0) return;
+            tintCtx.globalCompositeOperation = 'source-over';
+            tintCtx.globalAlpha = 1;
+            tintCtx.clearRect(0, 0, width, height);
+            tintCtx.drawImage(img, 0, 0, width, height);
+            tintCtx.globalCompositeOperation = 'source-atop';
+            tintCtx.globalAlpha = TINT_STRENGTH;
+            tintCtx.fillStyle = layer.tint;
+            tintCtx.fillRect(0, 0, width, height);
+
+            ctx.globalAlpha = layer.opacity;
+            ctx.drawImage(tinted, 0, 0);
+        });
+        ctx.globalAlpha = 1;
+    }, [layerKey, images, loadedCount, width, height]);
+
+    // Drop cached frames that are no longer part of the image set.
+    useEffect(() => {
+        const urls = new Set(images.map(img => img.url));
+        for (const url of cacheRef.current.keys()) {
+            if (!urls.has(url)) cacheRef.current.delete(url);
+        }
+    }, [images]);
+
+    return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none rounded-lg" />;
+};
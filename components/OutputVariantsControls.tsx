@@ -0,0 +1,102 @@
+import React from 'react';
+import type { OutputVariant, FitMode, Sampling } from '../types';
+import { DEFAULT_OUTPUT, computeOutputGeometry } from '../utils/render';
+import { PlusIcon, TrashIcon } from './Icons';
+
+interface OutputVariantsControlsProps {
+    outputs: OutputVariant[];
+    cropWidth: number;
+    cropHeight: number;
+    onChange: (outputs: OutputVariant[]) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 border-gray-600 text-white rounded-md p-1.5 text-sm focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50";
+
+const OptionalNumber: React.FC<{ label: string; value: number | null; onChange: (value: number | null) => void; step?: number; placeholder?: string }> = ({ label, value, onChange, step = 1, placeholder = 'auto' }) => (
+    <div className="w-20">
+        <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+        <input
+            type="number"
+            min={0}
+            step={step}
+            value={value ?? ''}
+            placeholder={placeholder}
+            onChange={e => {
+                if (e.target.value === '') return onChange(null);
+                const v = parseFloat(e.target.value);
+                if (!isNaN(v) && v > 0) onChange(v);
+            }}
+            className={inputClassName}
+        />
+    </div>
+);
+
+export const OutputVariantsControls: React.FC<OutputVariantsControlsProps> = ({ outputs, cropWidth, cropHeight, onChange }) => {
+    const update = (id: string, changes: Partial<OutputVariant>) => onChange(outputs.map(o => o.id === id ? { ...o, ...changes } : o));
+
+    const handleAdd = () => {
+        const last = outputs[outputs.length - 1] ?? DEFAULT_OUTPUT;
+        const scale = Math.max(1, Math.round(last.scale)) + 1;
+        onChange([...outputs, { ...last, id: `output-${Date.now()}`, scale, suffix: `@${scale}x` }]);
+    };
+
+    const handleRetinaPreset = () => onChange([
+        { ...DEFAULT_OUTPUT, id: `output-${Date.now()}-1`, suffix: '', scale: 1, sampling: outputs[0]?.sampling ?? 'smooth' },
+        { ...DEFAULT_OUTPUT, id: `output-${Date.now()}-2`, suffix: '@2x', scale: 2, sampling: outputs[0]?.sampling ?? 'smooth' },
+    ]);
+
+    return (
+        <div className="bg-gray-900/50 p-3 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-4">
+                <h4 className="text-sm font-semibold text-gray-300">Output Sizes</h4>
+                <div className="flex gap-2">
+                    <button onClick={handleRetinaPreset} className="text-xs bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-2 rounded transition-colors">@1x + @2x</button>
+                    <button onClick={handleAdd} className="text-xs flex items-center gap-1 bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-2 rounded transition-colors"><PlusIcon className="w-3 h-3" /> Variant</button>
+                </div>
+            </div>
+            {outputs.map(output => {
+                const geometry = computeOutputGeometry(Math.max(1, cropWidth), Math.max(1, cropHeight), output);
+                const hasBox = !!(output.width && output.height);
+                return (
+                    <div key={output.id} className="flex flex-wrap items-end gap-3">
+                        <div className="w-20">
+                            <label className="block text-xs font-medium text-gray-400 mb-1">Suffix</label>
+                            <input type="text" value={output.suffix} placeholder="none" onChange={e => update(output.id, { suffix: e.target.value })} className={inputClassName} />
+                        </div>
+                        <OptionalNumber label="Scale" value={output.scale} step={0.25} placeholder="1" onChange={v => update(output.id, { scale: v ?? 1 })} />
+                        <OptionalNumber label="Width" value={output.width} onChange={v => update(output.id, { width: v && Math.round(v) })} />
+                        <OptionalNumber label="Height" value={output.height} onChange={v => update(output.id, { height: v && Math.round(v) })} />
+                        <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-1">Fit</label>
+                            <select value={output.fit} onChange={e => update(output.id, { fit: e.target.value as FitMode })} disabled={!hasBox} className={inputClassName}>
+                                <option value="contain">Contain</option>
+                                <option value="cover">Cover</option>
+                                <option value="stretch">Stretch</option>
+                                <option value="pad">Pad</option>
+                            </select>
+                        </div>
+                        {output.fit === 'pad' && hasBox && (
+                            <div className="flex items-center gap-1 pb-1">
+                                <input type="checkbox" checked={output.background !== null} onChange={e => update(output.id, { background: e.target.checked ? '#000000' : null })} className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500" aria-label="Fill padding with a color" />
+                                <input type="color" value={output.background ?? '#000000'} disabled={output.background === null} onChange={e => update(output.id, { background: e.target.value })} className="w-7 h-7 rounded border-none bg-gray-700 cursor-pointer disabled:opacity-50" aria-label="Padding color" />
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-1">Sampling</label>
+                            <select value={output.sampling} onChange={e => update(output.id, { sampling: e.target.value as Sampling })} className={inputClassName}>
+                                <option value="smooth">Smooth</option>
+                                <option value="nearest">Nearest</option>
+                            </select>
+                        </div>
+                        <span className="text-xs font-mono text-gray-400 pb-2">{geometry.canvasWidth}×{geometry.canvasHeight}</span>
+                        {outputs.length > 1 && (
+                            <button onClick={() => onChange(outputs.filter(o => o.id !== output.id))} className="p-1.5 mb-0.5 bg-red-700 hover:bg-red-600 rounded text-white transition-colors" aria-label="Remove output variant">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { CropPreset } from '../types';
+import { DownloadIcon, TrashIcon, UploadCloudIcon } from './Icons';
+
+interface ProjectControlsProps {
+    onSaveProject: (includeImages: boolean) => void;
+    onLoadProject: (file: File) => void;
+    presets: CropPreset[];
+    onSavePreset: (name: string) => void;
+    onApplyPreset: (preset: CropPreset) => void;
+    onDeletePreset: (id: string) => void;
+    hasCrops: boolean;
+}
+
+// Saving and loading whole projects, and reusable crop layouts kept in the browser.
+export const ProjectControls: React.FC<ProjectControlsProps> = ({ onSaveProject, onLoadProject, presets, onSavePreset, onApplyPreset, onDeletePreset, hasCrops }) => {
+    const [includeImages, setIncludeImages] = useState(true);
+    const [presetName, setPresetName] = useState('');
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        onSavePreset(name);
+        setPresetName('');
+    };
+
+    return (
+        <details className="w-full max-w-4xl mx-auto bg-gray-800/50 backdrop-blur-sm px-4 py-3 rounded-lg border border-gray-700">
+            <summary className="font-semibold text-gray-300 cursor-pointer select-none">Project &amp; Presets</summary>
+            <div className="mt-4 flex flex-col gap-4">
+                <div className="flex flex-wrap items-center gap-4">
+                    <button
+                        onClick={() => onSaveProject(includeImages)}
+                        className="flex items-center gap-2 bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+                    >
+                        <DownloadIcon className="w-4 h-4" /> Save Project
+                    </button>
+                    <label className="flex items-center gap-2 bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors duration-200 cursor-pointer">
+                        <UploadCloudIcon className="w-4 h-4" /> Load Project
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0];
+                                // Cleared so loading the same file again still fires a change.
+                                e.target.value = '';
+                                if (file) onLoadProject(file);
+                            }}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300" title="List the image names and sizes in the project file">
+                        <input
+                            type="checkbox"
+                            checked={includeImages}
+                            onChange={e => setIncludeImages(e.target.checked)}
+                            className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500"
+                        />
+                        Include image list
+                    </label>
+                </div>
+                <p className="text-sm text-gray-400">Projects hold the crops with their names, detection, background removal and export settings. Crops are scaled when the images are a different size.</p>
+                <div className="border-t border-gray-700 pt-4">
+                    <h3 className="font-semibold text-gray-300 mb-3">Crop Presets</h3>
+                    <div className="flex gap-2 mb-3">
+                        <input
+                            type="text"
+                            value={presetName}
+                            onChange={e => setPresetName(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') handleSavePreset(); }}
+                            placeholder="Preset name"
+                            className="flex-1 min-w-0 bg-gray-700 border-gray-600 text-white text-sm rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                        />
+                        <button
+                            onClick={handleSavePreset}
+                            disabled={!hasCrops || !presetName.trim()}
+                            className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+                        >
+                            Save Current Crops
+                        </button>
+                    </div>
+                    {presets.length === 0 ? (
+                        <p className="text-sm text-gray-500">No presets saved in this browser yet.</p>
+                    ) : (
+                        <ul className="flex flex-col gap-1">
+                            {presets.map(preset => (
+                                <li key={preset.id} className="flex items-center gap-3 text-sm bg-gray-900/50 rounded-md px-3 py-2">
+                                    <span className="font-semibold text-gray-200 truncate">{preset.name}</span>
+                                    <span className="text-gray-400">{preset.crops.length} {preset.crops.length === 1 ? 'crop' : 'crops'} · {preset.imageSize.width}×{preset.imageSize.height}</span>
+                                    <button onClick={() => onApplyPreset(preset)} className="ml-auto bg-sky-600 hover:bg-sky-700 text-white font-semibold py-1 px-3 rounded transition-colors duration-200">Apply</button>
+                                    <button onClick={() => onDeletePreset(preset.id)} className="p-1.5 bg-gray-600 hover:bg-red-700 rounded transition-colors duration-200" aria-label={`Delete preset ${preset.name}`}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </details>
+    );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { LoaderIcon } from './Icons';
+
+interface ProposedCropsBarProps {
+    // What produced the boxes, e.g. "Detection".
+    source: string;
+    count: number;
+    isUpdating: boolean;
+    onApply: () => void;
+    onDiscard: () => void;
+    children?: React.ReactNode;
+}
+
+// Shown while proposed crops are previewed over the image, before they replace the current crops.
+export const ProposedCropsBar: React.FC<ProposedCropsBarProps> = ({ source, count, isUpdating, onApply, onDiscard, children }) => (
+    <div className="w-full max-w-4xl mx-auto bg-gray-800/50 backdrop-blur-sm px-4 py-3 rounded-lg border border-amber-600/60 flex flex-wrap items-center gap-4">
+        <span className="flex items-center gap-2 text-sm text-gray-300">
+            {isUpdating && <LoaderIcon className="animate-spin w-4 h-4" />}
+            <span className="font-semibold">{source} preview:</span>
+            {count === 0 ? 'nothing found. Adjust the settings below.' : `${count} ${count === 1 ? 'crop' : 'crops'}. Changing the settings updates the preview.`}
+        </span>
+        <div className="flex gap-2 ml-auto">
+            <button
+                onClick={onApply}
+                disabled={count === 0 || isUpdating}
+                className="bg-amber-600 hover:bg-amber-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 px-4 rounded-md transition-colors duration-200"
+            >
+                Replace Crops
+            </button>
+            <button onClick={onDiscard} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-1.5 px-4 rounded-md transition-colors duration-200">Discard</button>
+        </div>
+        {children && <div className="w-full">{children}</div>}
+    </div>
+);
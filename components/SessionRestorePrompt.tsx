@@ -0,0 +1,41 @@
+import React from 'react';
+import type { SessionState, StorageUsage } from '../utils/sessionStore';
+import { formatBytes } from '../utils/sessionStore';
+import { LoaderIcon } from './Icons';
+
+interface SessionRestorePromptProps {
+    session: SessionState;
+    storageUsage: StorageUsage | null;
+    onRestore: () => void;
+    onClear: () => void;
+    isRestoring: boolean;
+}
+
+// Offers the autosaved session from the last visit on the welcome screen.
+export const SessionRestorePrompt: React.FC<SessionRestorePromptProps> = ({ session, storageUsage, onRestore, onClear, isRestoring }) => (
+    <div className="mt-8 bg-gray-800/50 border border-sky-700/60 rounded-lg p-4 text-left">
+        <h2 className="font-semibold text-gray-200 mb-1">Restore previous session?</h2>
+        <p className="text-sm text-gray-400 mb-1">
+            {session.imageIds.length} {session.imageIds.length === 1 ? 'image' : 'images'} and {session.crops.length} {session.crops.length === 1 ? 'crop' : 'crops'}, saved {new Date(session.savedAt).toLocaleString()}.
+        </p>
+        {storageUsage && (
+            <p className="text-xs text-gray-500 mb-4">{formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} browser storage used.</p>
+        )}
+        <div className="flex gap-2">
+            <button
+                onClick={onRestore}
+                disabled={isRestoring}
+                className="flex items-center gap-2 bg-sky-600 hover:bg-sky-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+            >
+                {isRestoring && <LoaderIcon className="animate-spin w-4 h-4" />} Restore Session
+            </button>
+            <button
+                onClick={onClear}
+                disabled={isRestoring}
+                className="bg-gray-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors duration-200"
+            >
+                Clear Session
+            </button>
+        </div>
+    </div>
+);
@@ -0,0 +1,290 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { ImageFile, CropRect, AnimationExportOptions, AnimationFormat, PlaybackSettings, LoopMode } from '../types';
+import { PlayIcon, PauseIcon, RewindIcon, LoaderIcon, DownloadIcon, StepBackIcon, StepForwardIcon } from './Icons';
+import { ANIMATION_FILE_TYPES } from '../utils/animationExport';
+import { buildTimeline, getFrameRange } from '../utils/playback';
+import { loadMaskedImage } from '../utils/mask';
+
+interface SpriteSheetPreviewProps {
+    images: ImageFile[];
+    crop: CropRect | null;
+    // Maps the selected crop to the rect it covers on a given frame (e.g. per-image overrides).
+    resolveCrop?: (crop: CropRect, image: ImageFile) => CropRect;
+    playback: PlaybackSettings;
+    onPlaybackChange: (playback: PlaybackSettings) => void;
+    isPlaying: boolean;
+    onIsPlayingChange: (isPlaying: boolean) => void;
+    exportOptions: AnimationExportOptions;
+    onExportOptionsChange: (options: AnimationExportOptions) => void;
+    onExport: () => void;
+    isExporting: boolean;
+}
+
+// Frames decoded ahead of the playhead, besides the one on screen.
+const PRELOAD_FRAMES = 4;
+
+const NumberField: React.FC<{ id: string; label: string; value: number; min: number; max?: number; step?: number; onChange: (value: number) => void; className?: string }> = ({ id, label, value, min, max, step, onChange, className = 'w-24' }) => (
+    <div className={className}>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-400 mb-1">{label}</label>
+        <input
+            id={id}
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange(Math.max(min, max !== undefined ? Math.min(max, v) : v)); }}
+            className="w-full bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+        />
+    </div>
+);
+
+export const SpriteSheetPreview: React.FC<SpriteSheetPreviewProps> = ({ images, crop, resolveCrop, playback, onPlaybackChange, isPlaying, onIsPlayingChange, exportOptions, onExportOptionsChange, onExport, isExporting }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    // The frame on screen; it stays up while the next one decodes so playback doesn't flicker.
+    const [displayed, setDisplayed] = useState<{ image: ImageFile; source: CanvasImageSource } | null>(null);
+    // Decoded frames around the playhead, keyed by image object so a changed mask decodes again.
+    const frameCacheRef = useRef(new Map<ImageFile, Promise<CanvasImageSource>>());
+    // Position in the timeline (not the image index) so ping-pong and holds step naturally.
+    const [position, setPosition] = useState(0);
+    const positionRef = useRef(0);
+
+    const timeline = useMemo(() => buildTimeline(images, playback), [images, playback]);
+    const { start, end } = getFrameRange(images.length, playback);
+    const clampedPosition = Math.min(position, timeline.length - 1);
+
+    const goTo = (next: number) => {
+        positionRef.current = next;
+        setPosition(next);
+    };
+
+    useEffect(() => {
+        if (timeline.length === 0) {
+            setIsLoading(false);
+            return;
+        }
+        // Full-size frames of a long sequence don't all fit in memory, so only the current one and
+        // the next few in playback order are kept decoded.
+        const cache = frameCacheRef.current;
+        const wanted = new Set<ImageFile>();
+        for (let i = 0; i <= Math.min(PRELOAD_FRAMES, timeline.length - 1); i++) {
+            wanted.add(images[timeline[(clampedPosition + i) % timeline.length].index]);
+        }
+        for (const image of [...cache.keys()]) {
+            if (!wanted.has(image)) cache.delete(image);
+        }
+        wanted.forEach(image => {
+            if (cache.has(image)) return;
+            const frame = loadMaskedImage(image);
+            frame.catch(() => cache.delete(image));
+            cache.set(image, frame);
+        });
+
+        let isCancelled = false;
+        const image = images[timeline[clampedPosition].index];
+        cache.get(image)!.then(source => {
+            if (!isCancelled) {
+                setDisplayed({ image, source });
+                setIsLoading(false);
+            }
+        }).catch(error => {
+            console.error("Failed to load images for animation:", error);
+            if (!isCancelled) setIsLoading(false);
+        });
+
+        return () => { isCancelled = true; };
+    }, [images, timeline, clampedPosition]);
+
+    useEffect(() => {
+        if (positionRef.current >= timeline.length) goTo(0);
+    }, [timeline]);
+
+    useEffect(() => {
+        if (!isPlaying || isLoading || timeline.length === 0) return;
+
+        let animationFrameId: number;
+        let lastTime: number | null = null;
+        let elapsed = 0;
+        if (playback.loopMode === 'once' && positionRef.current >= timeline.length - 1) goTo(0);
+
+        const render = (timestamp: number) => {
+            if (lastTime === null) lastTime = timestamp;
+            elapsed += timestamp - lastTime;
+            lastTime = timestamp;
+
+            let next = positionRef.current;
+            while (elapsed >= timeline[next].duration) {
+                elapsed -= timeline[next].duration;
+                if (next + 1 < timeline.length) {
+                    next++;
+                } else if (playback.loopMode === 'once') {
+                    goTo(next);
+                    onIsPlayingChange(false);
+                    return;
+                } else {
+                    next = 0;
+                }
+            }
+            if (next !== positionRef.current) goTo(next);
+            animationFrameId = requestAnimationFrame(render);
+        };
+        animationFrameId = requestAnimationFrame(render);
+
+        return () => {
+            cancelAnimationFrame(animationFrameId);
+        };
+    }, [isPlaying, isLoading, timeline, playback.loopMode, onIsPlayingChange]);
+
+    const currentFrame = timeline[clampedPosition];
+
+    useEffect(() => {
+        if (!crop || !displayed) return;
+
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const rect = resolveCrop ? resolveCrop(crop, displayed.image) : crop;
+        canvas.width = crop.width;
+        canvas.height = crop.height;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(
+            displayed.source,
+            Math.round(rect.x), Math.round(rect.y), Math.round(rect.width), Math.round(rect.height),
+            0, 0, canvas.width, canvas.height
+        );
+    }, [displayed, crop, resolveCrop, isLoading]);
+
+    const step = (delta: number) => {
+        if (timeline.length === 0) return;
+        onIsPlayingChange(false);
+        goTo((position + delta + timeline.length) % timeline.length);
+    };
+
+    const currentImageFile = currentFrame ? images[currentFrame.index] : undefined;
+    const currentHold = currentImageFile ? (playback.frameHolds[currentImageFile.id] ?? 1) : 1;
+    const handleHoldChange = (hold: number) => {
+        if (!currentImageFile) return;
+        const frameHolds = { ...playback.frameHolds };
+        if (hold <= 1) delete frameHolds[currentImageFile.id];
+        else frameHolds[currentImageFile.id] = hold;
+        onPlaybackChange({ ...playback, frameHolds });
+    };
+
+    const isDisabled = isLoading || !crop;
+    const containerStyle: React.CSSProperties = {
+        width: '100%',
+        maxWidth: '600px',
+        aspectRatio: (crop?.width && crop?.height) ? `${crop.width} / ${crop.height}` : '16/9',
+        position: 'relative',
+    };
+
+    return (
+        <div className="bg-gray-800/50 backdrop-blur-sm p-4 rounded-lg border border-gray-700 w-full flex flex-col items-center gap-4">
+            <div className="bg-gray-900 overflow-hidden rounded-md w-full" style={containerStyle}>
+                {(isLoading || !crop) ? (
+                    <div className="w-full h-full flex items-center justify-center absolute inset-0">
+                        <LoaderIcon className="w-8 h-8 animate-spin" />
+                    </div>
+                ) : (
+                    <canvas ref={canvasRef} className="w-full h-full object-contain" />
+                )}
+            </div>
+            <div className="flex items-center gap-4">
+                <button onClick={() => step(-1)} className="bg-gray-700 hover:bg-gray-600 text-white rounded-full p-3 transition-colors disabled:opacity-50" aria-label="Previous frame" disabled={isDisabled} >
+                    <StepBackIcon className="w-6 h-6" />
+                </button>
+                <button onClick={() => onIsPlayingChange(!isPlaying)} className="bg-gray-700 hover:bg-gray-600 text-white rounded-full p-3 transition-colors disabled:opacity-50" aria-label={isPlaying ? 'Pause' : 'Play'} disabled={isDisabled} >
+                    {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
+                </button>
+                <button onClick={() => step(1)} className="bg-gray-700 hover:bg-gray-600 text-white rounded-full p-3 transition-colors disabled:opacity-50" aria-label="Next frame" disabled={isDisabled} >
+                    <StepForwardIcon className="w-6 h-6" />
+                </button>
+                <button onClick={() => onPlaybackChange({ ...playback, isReversed: !playback.isReversed })} className={`p-3 rounded-full transition-colors disabled:opacity-50 ${playback.isReversed ? 'bg-sky-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'}`} aria-label="Reverse" disabled={isDisabled} >
+                    <RewindIcon className="w-6 h-6" />
+                </button>
+            </div>
+            <div className="w-full max-w-xl flex flex-col gap-1">
+                <input
+                    type="range"
+                    min="0"
+                    max={Math.max(0, timeline.length - 1)}
+                    value={Math.min(position, Math.max(0, timeline.length - 1))}
+                    onChange={e => { onIsPlayingChange(false); goTo(parseInt(e.target.value, 10)); }}
+                    disabled={isDisabled}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    aria-label="Scrub animation"
+                />
+                <div className="flex justify-between text-sm text-gray-400">
+                    <span>Frame {currentFrame ? currentFrame.index + 1 : 0} / {images.length}</span>
+                    <span className="truncate ml-4">{currentImageFile?.name}</span>
+                </div>
+            </div>
+            <div className="flex flex-wrap items-end justify-center gap-4 w-full">
+                <NumberField id="anim-fps" label="FPS" value={playback.fps} min={1} max={120} onChange={fps => onPlaybackChange({ ...playback, fps })} />
+                <div>
+                    <label htmlFor="anim-loop-mode" className="block text-sm font-medium text-gray-400 mb-1">Loop</label>
+                    <select
+                        id="anim-loop-mode"
+                        value={playback.loopMode}
+                        onChange={e => onPlaybackChange({ ...playback, loopMode: e.target.value as LoopMode })}
+                        className="bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                    >
+                        <option value="loop">Loop</option>
+                        <option value="once">Once</option>
+                        <option value="pingpong">Ping-pong</option>
+                    </select>
+                </div>
+                <NumberField id="anim-start" label="Start" value={start + 1} min={1} max={images.length} onChange={v => onPlaybackChange({ ...playback, startFrame: Math.round(v) - 1, endFrame: Math.max(Math.round(v) - 1, end) })} />
+                <NumberField id="anim-end" label="End" value={end + 1} min={1} max={images.length} onChange={v => onPlaybackChange({ ...playback, startFrame: Math.min(start, Math.round(v) - 1), endFrame: Math.round(v) - 1 })} />
+                <NumberField id="anim-hold" label="Hold (ticks)" value={currentHold} min={1} max={100} onChange={v => handleHoldChange(Math.round(v))} className="w-28" />
+            </div>
+            <div className="flex flex-wrap items-end justify-center gap-4 border-t border-gray-700 pt-4 w-full">
+                <div>
+                    <label htmlFor="anim-format" className="block text-sm font-medium text-gray-400 mb-1">Format</label>
+                    <select
+                        id="anim-format"
+                        value={exportOptions.format}
+                        onChange={e => onExportOptionsChange({ ...exportOptions, format: e.target.value as AnimationFormat })}
+                        className="bg-gray-700 border-gray-600 text-white rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                    >
+                        {(Object.keys(ANIMATION_FILE_TYPES) as AnimationFormat[]).map(format => (
+                            <option key={format} value={format}>{ANIMATION_FILE_TYPES[format].label}</option>
+                        ))}
+                    </select>
+                </div>
+                {playback.loopMode !== 'once' && (
+                    <NumberField id="anim-loops" label="Plays (0 = forever)" value={exportOptions.loopCount} min={0} onChange={v => onExportOptionsChange({ ...exportOptions, loopCount: Math.round(v) })} className="w-36" />
+                )}
+                {exportOptions.format === 'gif' && (
+                    <label className="flex items-center gap-2 cursor-pointer py-2">
+                        <input type="checkbox" checked={exportOptions.dither} onChange={e => onExportOptionsChange({ ...exportOptions, dither: e.target.checked })} className="form-checkbox bg-gray-700 border-gray-600 text-sky-500 rounded focus:ring-sky-500" />
+                        Dithering
+                    </label>
+                )}
+                {exportOptions.format === 'webp' && (
+                    <div className="w-40">
+                        <label htmlFor="anim-quality" className="block text-sm font-medium text-gray-400 mb-1">Quality ({Math.round(exportOptions.quality * 100)})</label>
+                        <input
+                            id="anim-quality"
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={Math.round(exportOptions.quality * 100)}
+                            onChange={e => onExportOptionsChange({ ...exportOptions, quality: parseInt(e.target.value, 10) / 100 })}
+                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                )}
+                <button
+                    onClick={onExport}
+                    disabled={isDisabled || isExporting}
+                    className="flex items-center justify-center gap-2 bg-sky-600 hover:bg-sky-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+                >
+                    {isExporting ? (<><LoaderIcon className="animate-spin" /> Encoding...</>) : (<><DownloadIcon /> Export Animation</>)}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,14 +1,16 @@
 import React, { useRef, useLayoutEffect, useState } from 'react';
 import type { ImageFile, CropRect } from '../types';
+import { getPreviewUrl } from '../utils/imageStore';
 
 interface ThumbnailProps {
     image: ImageFile;
     crop: CropRect;
+    hasOverride?: boolean;
     isSelected: boolean;
     onClick: () => void;
 }
 
-export const Thumbnail: React.FC<ThumbnailProps> = ({ image, crop, isSelected, onClick }) => {
+export const Thumbnail: React.FC<ThumbnailProps> = ({ image, crop, hasOverride = false, isSelected, onClick }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     // Default to w-40 h-40 size in pixels (10rem = 160px) to prevent issues on first render
     const [containerSize, setContainerSize] = useState({ width: 160, height: 160 }); 
@@ -72,7 +74,7 @@ export const Thumbnail: React.FC<ThumbnailProps> = ({ image, crop, isSelected, o
             onClick={onClick}
         >
             <img
-                src={image.url}
+                src={getPreviewUrl(image)}
                 alt={image.name}
                 className="absolute"
                 style={imgStyle}
@@ -80,6 +82,11 @@ export const Thumbnail: React.FC<ThumbnailProps> = ({ image, crop, isSelected, o
              <div className="absolute inset-0 bg-black bg-opacity-20 flex items-center justify-center p-2">
                 <p className="text-xs text-center text-white break-words">{image.name}</p>
             </div>
+            {hasOverride && (
+                <span className="absolute top-1 right-1 bg-amber-500 text-gray-900 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded" title="This image has per-image crop adjustments">
+                    Override
+                </span>
+            )}
         </div>
     );
 };
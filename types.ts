@@ -2,14 +2,337 @@
 export interface ImageFile {
   id: string;
   name: string;
+  // Object URL of `blob`, the full-resolution pixels. Revoked once the image is replaced.
   url: string;
+  blob: Blob;
+  // Object URL of a small downscaled copy for thumbnails and crop previews.
+  previewUrl: string;
+  // Background removal, kept apart from the original pixels and applied when previewing and exporting.
+  mask: ImageMask | null;
+  // MIME type of the uploaded file, used by the "keep source format" export option.
+  type: string;
   width: number;
   height: number;
 }
 
+export interface ImageMask {
+  // Object URL of a PNG whose alpha channel is the coverage (0 = removed).
+  url: string;
+  blob: Blob;
+  // Like ImageFile.previewUrl, with the mask applied.
+  previewUrl: string;
+  // Color cast removed from the edges whenever the mask is applied; null for none.
+  despill: DespillSettings | null;
+  // Touched up by hand in the mask editor, so recomputing it would lose work.
+  edited: boolean;
+}
+
+export type KeyColorSpace = 'rgb' | 'lab';
+
+// Which key-colored pixels are removed: those connected to the image border, all of them, or those
+// connected to the clicked seed points.
+export type KeyMode = 'contiguous' | 'global' | 'seeds';
+
+export interface BackgroundKeyOptions {
+  colors: string[];
+  // Use each image's estimated background colors instead of `colors`, for batches whose
+  // backgrounds differ slightly from image to image.
+  autoColors: boolean;
+  // Largest distance to a key color that still counts as background, in RGB units or ΔE.
+  tolerance: number;
+  // Width of the soft edge beyond the tolerance, in the same units.
+  feather: number;
+  colorSpace: KeyColorSpace;
+  mode: KeyMode;
+  // Source-pixel positions used by the 'seeds' mode, shared by all images.
+  seeds: { x: number; y: number }[];
+  // 0-1; how strongly the key color's cast is removed from the remaining edge pixels.
+  despill: number;
+}
+
+// What a click on the image picks while the eyedropper is active.
+export type ColorPickerTarget = 'autoDetect' | 'bgRemove' | 'bgSeed';
+
+export interface DespillSettings {
+  colors: string[];
+  strength: number;
+}
+
+// How CropEditor shows the background-removal mask of the current image.
+export interface MaskViewSettings {
+  enabled: boolean;
+  // Percentage of the width, from the left, that shows the original for a before/after comparison.
+  split: number;
+}
+
+export type MaskTool = 'keep' | 'erase' | 'wandAdd' | 'wandSubtract';
+
+// Tool settings of the mask editor in CropEditor.
+export interface MaskBrushSettings {
+  tool: MaskTool;
+  // Brush diameter in source pixels.
+  size: number;
+  // 0-1; share of the radius painted at full strength before the edge fades out.
+  hardness: number;
+  // Magic wand reach from the clicked color, in RGB units.
+  tolerance: number;
+}
+
+export interface AutoDetectOptions {
+  // 'auto' estimates the background of each image from its border.
+  mode: 'transparent' | 'color' | 'auto';
+  color: string;
+  // Largest RGB distance from `color` that still counts as background.
+  colorTolerance: number;
+  // Pixels with a lower alpha count as transparent background.
+  alphaThreshold: number;
+  // Boxes smaller than this are dropped as noise; the area counts foreground pixels.
+  minWidth: number;
+  minHeight: number;
+  minArea: number;
+  // Added on every side of each box, within the image.
+  padding: number;
+  // 8 also joins pixels that only touch diagonally.
+  connectivity: 4 | 8;
+  // Boxes whose gap is at most this many pixels are merged, so detached parts stay with their
+  // sprite; 0 turns merging off.
+  mergeDistance: number;
+  frames: DetectionFrames;
+}
+
+// Which images detection runs on: the one in the editor, or all of them with the boxes of each
+// object combined into the box covering every frame, the box common to all frames, or one box per
+// frame (stored as per-image overrides).
+export type DetectionFrames = 'current' | 'union' | 'intersection' | 'track';
+
+// Regular grid of crops over the image, for uniform sprite sheets and contact sheets.
+export interface GridSliceOptions {
+  // 'count' fits `rows` × `columns` cells into the image; 'size' repeats cells of a fixed size.
+  by: 'count' | 'size';
+  rows: number;
+  columns: number;
+  cellWidth: number;
+  cellHeight: number;
+  // Border left out on every side of the image.
+  margin: number;
+  // Gap between neighbouring cells.
+  spacingX: number;
+  spacingY: number;
+  // Shift of the whole grid from the top-left margin corner.
+  offsetX: number;
+  offsetY: number;
+  // Leave out cells with nothing but background under the detection settings.
+  skipEmpty: boolean;
+}
+
+// Crops proposed by a detection run, previewed before they replace the current ones.
+export interface DetectionResult {
+  crops: CropRect[];
+  overrides: CropOverrides;
+  // Per-image count of the objects found in it, for the multi-image modes; null for a single image.
+  frames: { imageId: string; matched: number }[] | null;
+}
+
+// Background proposed for an image from the pixels along its border.
+export interface BackgroundEstimate {
+  // Dominant opaque border colors, most common first, with the share of border pixels each covers.
+  colors: { color: string; share: number }[];
+  // Share of border pixels that are (nearly) transparent.
+  transparentShare: number;
+  // 0-1: share of the border the proposal explains; low values mean objects or gradients touch the border.
+  confidence: number;
+  // Keying tolerance that covers the noise around the proposed colors.
+  tolerance: Record<KeyColorSpace, number>;
+}
+
+export interface CropConstraints {
+  // Locked width:height ratio, e.g. { width: 16, height: 9 }; null resizes freely.
+  aspectRatio: { width: number; height: number } | null;
+  // Exact size in pixels; the crop can then only be moved.
+  fixedSize: { width: number; height: number } | null;
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  // Position and size snap to multiples of this many pixels; 1 disables snapping.
+  snap: number;
+}
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface OutputFormatOptions {
+  // 'source' writes each frame in its uploaded format, falling back to PNG when the browser can't encode it.
+  format: OutputFormat | 'source';
+  // 0-1 encoder quality per lossy format.
+  quality: Record<Exclude<OutputFormat, 'png'>, number>;
+  // Color that transparent pixels are flattened onto for JPEG, which has no alpha channel.
+  // null leaves it to the browser's encoder, which usually turns them black.
+  jpegBackground: string | null;
+}
+
+// Trimming of the empty margins around every exported file.
+export interface ExportTrimOptions {
+  enabled: boolean;
+  // Background pixels kept around the content.
+  padding: number;
+}
+
+// Where a trimmed file sat in its untrimmed output, in the TexturePacker frame layout, so engines can
+// put it back in place.
+export interface SpriteTrim {
+  trimmed: boolean;
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+}
+
+export type FitMode = 'contain' | 'cover' | 'stretch' | 'pad';
+
+export type Sampling = 'smooth' | 'nearest';
+
+// One rendition of a crop in the export, e.g. "@1x" and "@2x" or a thumbnail.
+export interface OutputVariant {
+  id: string;
+  // Appended to the file name; empty for the primary output.
+  suffix: string;
+  // Multiplies the crop size, or the target box when one is set.
+  scale: number;
+  // Target box in pixels. With only one side set the other follows the crop's aspect ratio.
+  width: number | null;
+  height: number | null;
+  fit: FitMode;
+  // Fill behind 'pad' letterboxing; null keeps it transparent.
+  background: string | null;
+  sampling: Sampling;
+}
+
 export interface CropRect {
+  id: string;
   x: number;
   y: number;
   width: number;
   height: number;
+  // Used in export file names; missing falls back to "crop-N".
+  name?: string;
+  // Label color of the crop in the editor and previews.
+  color?: string;
+  // Locked crops can't be moved or resized.
+  locked?: boolean;
+  // Hidden crops aren't drawn over the image; they are still exported.
+  hidden?: boolean;
+  constraints?: CropConstraints;
+  // Missing or empty means a single 1:1 output.
+  outputs?: OutputVariant[];
+}
+
+export type CropHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw' | 'move';
+
+export type SpriteSheetLayout = 'grid' | 'strip' | 'packed';
+
+export type AtlasFormat = 'hash' | 'array';
+
+export interface SpriteSheetOptions {
+  layout: SpriteSheetLayout;
+  // Number of columns for the grid layout; 0 picks a roughly square grid.
+  columns: number;
+  padding: number;
+  extrude: number;
+  atlasFormat: AtlasFormat;
+}
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  // Total number of plays; 0 loops forever.
+  loopCount: number;
+  // Floyd–Steinberg dithering when reducing to the GIF palette.
+  dither: boolean;
+  // Lossy WebP quality between 0 and 1.
+  quality: number;
+}
+
+export type LoopMode = 'loop' | 'once' | 'pingpong';
+
+export interface PlaybackSettings {
+  fps: number;
+  loopMode: LoopMode;
+  isReversed: boolean;
+  // Inclusive frame range into the image list; `endFrame: null` means the last image.
+  startFrame: number;
+  endFrame: number | null;
+  // How many ticks (1 / fps) each frame is held for, keyed by image id. Missing entries hold for one tick.
+  frameHolds: Record<string, number>;
+}
+
+export interface OnionSkinSettings {
+  enabled: boolean;
+  framesBefore: number;
+  framesAfter: number;
+  // Opacity of the nearest neighbouring frame; farther frames fade out linearly.
+  beforeOpacity: number;
+  afterOpacity: number;
+  beforeTint: string;
+  afterTint: string;
+}
+
+export type CropOverride =
+  | { kind: 'offset'; dx: number; dy: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number };
+
+// Per-image adjustments of the global crops, keyed by image id and then by crop id.
+export type CropOverrides = Record<string, Record<string, CropOverride>>;
+
+export interface FrameOffset {
+  dx: number;
+  dy: number;
+}
+
+// Estimated content translation of each image relative to the alignment reference, keyed by image id.
+export type AlignmentOffsets = Record<string, FrameOffset>;
+
+export type AlignmentMethod = 'phase' | 'block';
+
+export interface AlignmentOptions {
+  method: AlignmentMethod;
+  // Image the others are registered against; null uses the currently selected image.
+  referenceImageId: string | null;
+  // Largest translation searched for, in source pixels.
+  maxShift: number;
+}
+
+// A crop as stored in project files and presets: ids are made fresh on load.
+export type SavedCrop = Omit<CropRect, 'id'> & { name: string };
+
+export interface ProjectSettings {
+  autoDetect: AutoDetectOptions;
+  backgroundKey: BackgroundKeyOptions;
+  grid: GridSliceOptions;
+  outputFormat: OutputFormatOptions;
+  exportTrim: ExportTrimOptions;
+  filenameTemplate: string;
+  spriteSheet: SpriteSheetOptions;
+  animationExport: AnimationExportOptions;
+}
+
+// Contents of a saved project (.json). `version` is bumped whenever the layout changes; older files
+// are upgraded on load.
+export interface ProjectFile {
+  format: 'bulk-image-cropper-project';
+  version: number;
+  // Size of the image the crops were laid out on, to scale them to images of another size.
+  imageSize: { width: number; height: number };
+  crops: SavedCrop[];
+  // Settings missing from older files keep their current values.
+  settings: Partial<ProjectSettings>;
+  // Images the project was made with, when saved with them.
+  images?: { name: string; width: number; height: number }[];
+}
+
+// A named crop layout kept in the browser to reuse on new uploads.
+export interface CropPreset {
+  id: string;
+  name: string;
+  imageSize: { width: number; height: number };
+  crops: SavedCrop[];
+  savedAt: number;
 }
@@ -0,0 +1,223 @@
+import type { AlignmentOptions, FrameOffset } from '../types';
+import { createCanvas, getContext2D } from './image';
+
+export interface GrayImage {
+    width: number;
+    height: number;
+    data: Float32Array;
+}
+
+// Long side of the downscaled copies used for the coarse estimate.
+const ANALYSIS_SIZE = 256;
+// Side of the full-resolution patch used to refine the coarse estimate to pixel accuracy.
+const REFINE_SIZE = 384;
+// Upper bound of compared pixels per candidate shift when block matching.
+const MAX_BLOCK_SAMPLES = 4096;
+
+const nextPowerOfTwo = (n: number) => 1 << Math.ceil(Math.log2(Math.max(1, n)));
+
+// Luminance weighted by alpha, so transparent sprite backgrounds read as black.
+export const toGray = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+    const data = new Float32Array(width * height);
+    for (let i = 0; i < data.length; i++) {
+        const p = i * 4;
+        data[i] = (0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2]) * (rgba[p + 3] / 255);
+    }
+    return { width, height, data };
+};
+
+const readGray = (img: CanvasImageSource, sx: number, sy: number, sw: number, sh: number, width: number, height: number): GrayImage => {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not read image pixels.");
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, width, height);
+    return toGray(ctx.getImageData(0, 0, width, height).data, width, height);
+};
+
+// In-place iterative radix-2 FFT; `n` must be a power of two.
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = (inverse ? 2 : -2) * Math.PI / len;
+        const wRe = Math.cos(angle), wIm = Math.sin(angle);
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1, curIm = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const a = i + k, b = a + len / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+    if (inverse) {
+        for (let i = 0; i < n; i++) { re[i] /= n; im[i] /= n; }
+    }
+};
+
+const fft2d = (re: Float64Array, im: Float64Array, width: number, height: number, inverse: boolean) => {
+    const rowRe = new Float64Array(width), rowIm = new Float64Array(width);
+    for (let y = 0; y < height; y++) {
+        rowRe.set(re.subarray(y * width, (y + 1) * width));
+        rowIm.set(im.subarray(y * width, (y + 1) * width));
+        fft(rowRe, rowIm, inverse);
+        re.set(rowRe, y * width);
+        im.set(rowIm, y * width);
+    }
+    const colRe = new Float64Array(height), colIm = new Float64Array(height);
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) { colRe[y] = re[y * width + x]; colIm[y] = im[y * width + x]; }
+        fft(colRe, colIm, inverse);
+        for (let y = 0; y < height; y++) { re[y * width + x] = colRe[y]; im[y * width + x] = colIm[y]; }
+    }
+};
+
+// Vertex of the parabola through three equally spaced samples, relative to the middle one.
+const parabolicPeak = (left: number, center: number, right: number) => {
+    const denominator = left - 2 * center + right;
+    return denominator === 0 ? 0 : Math.max(-0.5, Math.min(0.5, (left - right) / (2 * denominator)));
+};
+
+// Estimates how far `img`'s content is translated relative to `ref` via normalized cross-power spectrum.
+export function phaseCorrelate(ref: GrayImage, img: GrayImage, maxShift: number): FrameOffset {
+    const width = nextPowerOfTwo(Math.max(ref.width, img.width));
+    const height = nextPowerOfTwo(Math.max(ref.height, img.height));
+
+    // Mean-subtracted, Hann-windowed input keeps the image borders from dominating the spectrum.
+    const prepare = (source: GrayImage) => {
+        const re = new Float64Array(width * height);
+        let mean = 0;
+        for (let i = 0; i < source.data.length; i++) mean += source.data[i];
+        mean /= source.data.length || 1;
+        for (let y = 0; y < source.height; y++) {
+            const wy = 0.5 - 0.5 * Math.cos(2 * Math.PI * (y + 0.5) / source.height);
+            for (let x = 0; x < source.width; x++) {
+                const wx = 0.5 - 0.5 * Math.cos(2 * Math.PI * (x + 0.5) / source.width);
+                re[y * width + x] = (source.data[y * source.width + x] - mean) * wx * wy;
+            }
+        }
+        const im = new Float64Array(width * height);
+        fft2d(re, im, width, height, false);
+        return { re, im };
+    };
+
+    const a = prepare(img);
+    const b = prepare(ref);
+    const re = new Float64Array(width * height);
+    const im = new Float64Array(width * height);
+    for (let i = 0; i < re.length; i++) {
+        // a * conj(b), normalized to unit magnitude.
+        const r = a.re[i] * b.re[i] + a.im[i] * b.im[i];
+        const j = a.im[i] * b.re[i] - a.re[i] * b.im[i];
+        const magnitude = Math.hypot(r, j) || 1;
+        re[i] = r / magnitude;
+        im[i] = j / magnitude;
+    }
+    fft2d(re, im, width, height, true);
+
+    const limitX = Math.min(maxShift, width / 2 - 1);
+    const limitY = Math.min(maxShift, height / 2 - 1);
+    const at = (dx: number, dy: number) => re[((dy + height) % height) * width + ((dx + width) % width)];
+    let best = { dx: 0, dy: 0, value: -Infinity };
+    for (let dy = -Math.floor(limitY); dy <= limitY; dy++) {
+        for (let dx = -Math.floor(limitX); dx <= limitX; dx++) {
+            const value = at(dx, dy);
+            if (value > best.value) best = { dx, dy, value };
+        }
+    }
+    return {
+        dx: best.dx + parabolicPeak(-at(best.dx - 1, best.dy), -best.value, -at(best.dx + 1, best.dy)),
+        dy: best.dy + parabolicPeak(-at(best.dx, best.dy - 1), -best.value, -at(best.dx, best.dy + 1)),
+    };
+}
+
+// Exhaustive search for the shift minimizing the mean absolute difference between `ref` and `img`,
+// comparing ref(x, y) with img(x + origin.x + dx, y + origin.y + dy) for |dx|, |dy| <= radius.
+// Only ref pixels at least `margin` away from its border take part.
+export function blockMatch(ref: GrayImage, img: GrayImage, radius: number, origin: { x: number; y: number } = { x: 0, y: 0 }, margin = radius): FrameOffset {
+    const r = Math.max(0, Math.floor(radius));
+    const x0 = Math.min(margin, ref.width >> 2), y0 = Math.min(margin, ref.height >> 2);
+    const x1 = ref.width - x0, y1 = ref.height - y0;
+    const step = Math.max(1, Math.floor(Math.sqrt(((x1 - x0) * (y1 - y0)) / MAX_BLOCK_SAMPLES)));
+    const size = 2 * r + 1;
+    const costs = new Float64Array(size * size).fill(Infinity);
+
+    let best = { dx: 0, dy: 0, cost: Infinity };
+    for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+            let total = 0, count = 0;
+            for (let y = y0; y < y1; y += step) {
+                const iy = y + origin.y + dy;
+                if (iy < 0 || iy >= img.height) continue;
+                for (let x = x0; x < x1; x += step) {
+                    const ix = x + origin.x + dx;
+                    if (ix < 0 || ix >= img.width) continue;
+                    total += Math.abs(ref.data[y * ref.width + x] - img.data[iy * img.width + ix]);
+                    count++;
+                }
+            }
+            // Require a meaningful overlap so large shifts can't win on a handful of pixels.
+            const cost = count > 16 ? total / count : Infinity;
+            costs[(dy + r) * size + (dx + r)] = cost;
+            if (cost < best.cost) best = { dx, dy, cost };
+        }
+    }
+
+    const costAt = (dx: number, dy: number) => {
+        if (Math.abs(dx) > r || Math.abs(dy) > r) return Infinity;
+        return costs[(dy + r) * size + (dx + r)];
+    };
+    const refine = (left: number, right: number) => isFinite(left) && isFinite(right) ? parabolicPeak(left, best.cost, right) : 0;
+    return {
+        dx: best.dx + refine(costAt(best.dx - 1, best.dy), costAt(best.dx + 1, best.dy)),
+        dy: best.dy + refine(costAt(best.dx, best.dy - 1), costAt(best.dx, best.dy + 1)),
+    };
+}
+
+// Registers `img` against `ref` (both `width × height`) and returns the translation of `img`'s
+// content, in source pixels. Shifting a crop by this offset keeps it on the same subject.
+export function alignFrame(ref: CanvasImageSource, img: CanvasImageSource, width: number, height: number, options: Pick<AlignmentOptions, 'method' | 'maxShift'>): FrameOffset {
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+    const analysisWidth = Math.max(8, Math.round(width * scale));
+    const analysisHeight = Math.max(8, Math.round(height * scale));
+    const refSmall = readGray(ref, 0, 0, width, height, analysisWidth, analysisHeight);
+    const small = readGray(img, 0, 0, width, height, analysisWidth, analysisHeight);
+    const coarseRadius = Math.max(1, Math.ceil(options.maxShift * scale));
+    const coarse = options.method === 'phase'
+        ? phaseCorrelate(refSmall, small, coarseRadius)
+        : blockMatch(refSmall, small, coarseRadius);
+
+    // Full-resolution reference patch around the image center refines the coarse estimate.
+    const patchWidth = Math.min(REFINE_SIZE, width);
+    const patchHeight = Math.min(REFINE_SIZE, height);
+    const patchX = Math.floor((width - patchWidth) / 2);
+    const patchY = Math.floor((height - patchHeight) / 2);
+    const refPatch = readGray(ref, patchX, patchY, patchWidth, patchHeight, patchWidth, patchHeight);
+    const refineRadius = Math.ceil(1 / scale) + 1;
+
+    const guessX = Math.round(coarse.dx / scale);
+    const guessY = Math.round(coarse.dy / scale);
+    const searchX = patchX + guessX - refineRadius;
+    const searchY = patchY + guessY - refineRadius;
+    const searchPatch = readGray(img, searchX, searchY, patchWidth + refineRadius * 2, patchHeight + refineRadius * 2, patchWidth + refineRadius * 2, patchHeight + refineRadius * 2);
+    const fine = blockMatch(refPatch, searchPatch, refineRadius, { x: refineRadius, y: refineRadius }, 0);
+
+    const dx = Math.max(-options.maxShift, Math.min(options.maxShift, guessX + fine.dx));
+    const dy = Math.max(-options.maxShift, Math.min(options.maxShift, guessY + fine.dy));
+    return { dx: Math.round(dx * 100) / 100, dy: Math.round(dy * 100) / 100 };
+}
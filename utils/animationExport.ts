@@ -0,0 +1,34 @@
+import type { AnimationExportOptions, AnimationFormat } from '../types';
+import { encodeGif } from './encoders/gif';
+import { encodeApng } from './encoders/apng';
+import { encodeWebp } from './encoders/webp';
+
+export const ANIMATION_FILE_TYPES: Record<AnimationFormat, { extension: string; mimeType: string; label: string }> = {
+    gif: { extension: 'gif', mimeType: 'image/gif', label: 'GIF' },
+    apng: { extension: 'png', mimeType: 'image/apng', label: 'APNG' },
+    webp: { extension: 'webp', mimeType: 'image/webp', label: 'Animated WebP' },
+};
+
+const getImageData = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not read frame pixels.");
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Encodes equally sized frame canvases, shown for `delays[i]` milliseconds each, into an animated image.
+export async function encodeAnimation(frames: HTMLCanvasElement[], delays: number[], options: AnimationExportOptions): Promise<Blob> {
+    const { mimeType } = ANIMATION_FILE_TYPES[options.format];
+    let bytes: Uint8Array;
+    switch (options.format) {
+        case 'gif':
+            bytes = encodeGif(frames.map(getImageData), { delays, loopCount: options.loopCount, dither: options.dither });
+            break;
+        case 'apng':
+            bytes = await encodeApng(frames.map(getImageData), { delays, loopCount: options.loopCount });
+            break;
+        case 'webp':
+            bytes = await encodeWebp(frames, { delays, loopCount: options.loopCount, quality: options.quality });
+            break;
+    }
+    return new Blob([bytes], { type: mimeType });
+}
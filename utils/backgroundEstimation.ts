@@ -0,0 +1,142 @@
+import type { AutoDetectOptions, BackgroundEstimate, KeyColorSpace } from '../types';
+import { hexToRgb, rgbToHex, colorDistance, rgbToLab, deltaE, type RGB } from './color';
+
+// Estimates below this are flagged for the user to check.
+export const LOW_CONFIDENCE = 0.8;
+
+// Rows and columns sampled along each side of the image.
+const BORDER_DEPTH = 2;
+const ALPHA_THRESHOLD = 10;
+// Border colors closer than this (RGB) are treated as one background color.
+const CLUSTER_DISTANCE = 24;
+const MAX_COLORS = 3;
+// Colors covering less of the border than this are taken to be objects touching the edge.
+const MIN_SHARE = 0.1;
+// The suggested tolerance covers this fraction of the border pixels that belong to the background.
+const TOLERANCE_PERCENTILE = 0.95;
+const TOLERANCE_MARGIN: Record<KeyColorSpace, number> = { rgb: 6, lab: 2 };
+
+interface Cluster {
+    count: number;
+    r: number;
+    g: number;
+    b: number;
+}
+
+const centroid = (cluster: Cluster): RGB => ({ r: cluster.r / cluster.count, g: cluster.g / cluster.count, b: cluster.b / cluster.count });
+
+const percentile = (values: number[], fraction: number) => {
+    if (values.length === 0) return 0;
+    values.sort((a, b) => a - b);
+    return values[Math.min(values.length - 1, Math.floor(values.length * fraction))];
+};
+
+// Proposes the background of an RGBA buffer by clustering the colors along its border.
+export function estimateBackground(data: Uint8ClampedArray, width: number, height: number): BackgroundEstimate {
+    const depth = Math.max(1, Math.min(BORDER_DEPTH, Math.floor(width / 2), Math.floor(height / 2)));
+    const border: number[] = [];
+    for (let y = 0; y < height; y++) {
+        const fullRow = y < depth || y >= height - depth;
+        for (let x = 0; x < width; x++) {
+            if (fullRow || x < depth || x >= width - depth) border.push((y * width + x) * 4);
+        }
+    }
+
+    // Histogram of the opaque border pixels at 5 bits per channel, keeping the exact sums for the mean.
+    const bins = new Map<number, Cluster>();
+    let transparent = 0;
+    for (const p of border) {
+        if (data[p + 3] < ALPHA_THRESHOLD) { transparent++; continue; }
+        const key = (data[p] >> 3) << 10 | (data[p + 1] >> 3) << 5 | data[p + 2] >> 3;
+        const bin = bins.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+        bin.count++; bin.r += data[p]; bin.g += data[p + 1]; bin.b += data[p + 2];
+        bins.set(key, bin);
+    }
+
+    // Greedy clustering, most common bins first, so each cluster grows around a dominant color.
+    const clusters: Cluster[] = [];
+    for (const bin of [...bins.values()].sort((a, b) => b.count - a.count)) {
+        const color = centroid(bin);
+        const cluster = clusters.find(c => {
+            const center = centroid(c);
+            return colorDistance(color.r, color.g, color.b, center.r, center.g, center.b) < CLUSTER_DISTANCE;
+        });
+        if (cluster) {
+            cluster.count += bin.count; cluster.r += bin.r; cluster.g += bin.g; cluster.b += bin.b;
+        } else {
+            clusters.push({ ...bin });
+        }
+    }
+
+    const total = Math.max(1, border.length);
+    const kept = clusters
+        .sort((a, b) => b.count - a.count)
+        .filter(c => c.count / total >= MIN_SHARE)
+        .slice(0, MAX_COLORS);
+    const centers = kept.map(centroid);
+    const transparentShare = transparent / total;
+    const explained = transparentShare + kept.reduce((sum, c) => sum + c.count, 0) / total;
+
+    // Distance of each background border pixel to its nearest proposed color, in both color spaces.
+    const distances: Record<KeyColorSpace, number[]> = { rgb: [], lab: [] };
+    const centerLabs = centers.map(c => rgbToLab(Math.round(c.r), Math.round(c.g), Math.round(c.b)));
+    if (centers.length > 0) {
+        for (const p of border) {
+            if (data[p + 3] < ALPHA_THRESHOLD) continue;
+            const rgb = Math.min(...centers.map(c => colorDistance(data[p], data[p + 1], data[p + 2], c.r, c.g, c.b)));
+            if (rgb >= CLUSTER_DISTANCE * 2) continue;
+            const lab = rgbToLab(data[p], data[p + 1], data[p + 2]);
+            distances.rgb.push(rgb);
+            distances.lab.push(Math.min(...centerLabs.map(c => deltaE(lab, c))));
+        }
+    }
+    const suggestTolerance = (space: KeyColorSpace) => Math.ceil(percentile(distances[space], TOLERANCE_PERCENTILE) + TOLERANCE_MARGIN[space]);
+
+    return {
+        colors: kept.map((c, i) => ({ color: rgbToHex(centers[i].r, centers[i].g, centers[i].b), share: c.count / total })),
+        transparentShare,
+        confidence: Math.min(1, explained),
+        tolerance: { rgb: suggestTolerance('rgb'), lab: suggestTolerance('lab') },
+    };
+}
+
+// Detection settings for an image under the 'auto' mode: transparent when most of the border is,
+// otherwise the dominant border color.
+export function resolveAutoDetectOptions(options: AutoDetectOptions, estimate: BackgroundEstimate): AutoDetectOptions {
+    if (estimate.transparentShare >= 0.5 || estimate.colors.length === 0) return { ...options, mode: 'transparent' };
+    return { ...options, mode: 'color', color: estimate.colors[0].color };
+}
+
+// Folds the estimates of a batch into one set of key colors, weighting each image equally, plus the
+// largest suggested tolerance so every image's background is covered. `varies` is set when the images
+// together have more background colors than any one of them, i.e. their backgrounds differ.
+export function combineEstimates(estimates: BackgroundEstimate[]) {
+    const clusters: (Cluster & { weight: number })[] = [];
+    for (const estimate of estimates) {
+        for (const { color, share } of estimate.colors) {
+            const rgb = hexToRgb(color)!;
+            const cluster = clusters.find(c => {
+                const center = centroid(c);
+                return colorDistance(rgb.r, rgb.g, rgb.b, center.r, center.g, center.b) < CLUSTER_DISTANCE;
+            });
+            if (cluster) {
+                cluster.count++; cluster.r += rgb.r; cluster.g += rgb.g; cluster.b += rgb.b; cluster.weight += share;
+            } else {
+                clusters.push({ count: 1, ...rgb, weight: share });
+            }
+        }
+    }
+    const colors = clusters
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, MAX_COLORS)
+        .map(c => { const center = centroid(c); return rgbToHex(center.r, center.g, center.b); });
+    return {
+        colors,
+        varies: clusters.length > Math.max(0, ...estimates.map(e => e.colors.length)),
+        transparent: estimates.filter(e => e.transparentShare >= 0.5).length > estimates.length / 2,
+        tolerance: {
+            rgb: Math.max(0, ...estimates.map(e => e.tolerance.rgb)),
+            lab: Math.max(0, ...estimates.map(e => e.tolerance.lab)),
+        } as Record<KeyColorSpace, number>,
+    };
+}
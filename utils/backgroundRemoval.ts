@@ -0,0 +1,163 @@
+import type { BackgroundKeyOptions, DespillSettings, KeyColorSpace } from '../types';
+import { hexToRgb, colorDistance, rgbToLab, deltaE, type RGB } from './color';
+
+// Pixels this close to the removed area (or partially transparent) get despilled.
+const DESPILL_RADIUS = 2;
+// Key colors whose channels are this close together are neutral and cause no color cast.
+const NEUTRAL_KEY_SPREAD = 32;
+
+// Slider range and starting tolerance per color space; ΔE values run much smaller than RGB distances.
+export const KEY_TOLERANCE_RANGES: Record<KeyColorSpace, { max: number; default: number }> = {
+    rgb: { max: 150, default: 20 },
+    lab: { max: 60, default: 8 },
+};
+
+export const DEFAULT_BG_KEY_OPTIONS: BackgroundKeyOptions = {
+    colors: ['#ffffff'],
+    autoColors: false,
+    tolerance: KEY_TOLERANCE_RANGES.rgb.default,
+    feather: 25,
+    colorSpace: 'rgb',
+    mode: 'contiguous',
+    seeds: [],
+    despill: 0,
+};
+
+// Distance from every pixel to the nearest key color, in the option's color space.
+function computeKeyDistances(data: Uint8ClampedArray, pixelCount: number, keys: RGB[], colorSpace: KeyColorSpace) {
+    const distances = new Float32Array(pixelCount);
+    const keyLabs = keys.map(k => rgbToLab(k.r, k.g, k.b));
+    for (let i = 0; i < pixelCount; i++) {
+        const p = i * 4;
+        let best = Infinity;
+        if (colorSpace === 'lab') {
+            const lab = rgbToLab(data[p], data[p + 1], data[p + 2]);
+            for (const key of keyLabs) best = Math.min(best, deltaE(lab, key));
+        } else {
+            for (const key of keys) best = Math.min(best, colorDistance(data[p], data[p + 1], data[p + 2], key.r, key.g, key.b));
+        }
+        distances[i] = best;
+    }
+    return distances;
+}
+
+// Computes a per-pixel coverage mask (0 = removed, 255 = kept) for an RGBA buffer. Pixels within
+// `tolerance` of a key color are removed, either all of them or only those connected to the image
+// border or to the seed points; with `feather` > 0 the remaining edge pixels fade out by how close
+// they are to the tolerance. Returns null when none of the key colors can be parsed.
+export function computeBackgroundMask(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: BackgroundKeyOptions,
+    onProgress?: (fraction: number) => void
+): Uint8ClampedArray | null {
+    const keys = options.colors.map(hexToRgb).filter((rgb): rgb is RGB => rgb !== null);
+    if (keys.length === 0) return null;
+    const pixelCount = width * height;
+    const mask = new Uint8ClampedArray(pixelCount).fill(255);
+    const distances = computeKeyDistances(data, pixelCount, keys, options.colorSpace);
+    const isKey = (i: number) => distances[i] < options.tolerance;
+    onProgress?.(0.4);
+
+    if (options.mode === 'global') {
+        for (let i = 0; i < pixelCount; i++) if (isKey(i)) mask[i] = 0;
+    } else {
+        // --- Flood fill from the border or the seeds ---
+        const visited = new Uint8Array(pixelCount);
+        const queue = new Int32Array(pixelCount);
+        let head = 0, tail = 0;
+        const addToQueue = (i: number) => {
+            if (visited[i] || !isKey(i)) return;
+            visited[i] = 1;
+            queue[tail++] = i;
+        };
+
+        if (options.mode === 'seeds') {
+            for (const seed of options.seeds) {
+                const x = Math.round(seed.x), y = Math.round(seed.y);
+                if (x >= 0 && x < width && y >= 0 && y < height) addToQueue(y * width + x);
+            }
+        } else {
+            for (let x = 0; x < width; x++) { addToQueue(x); addToQueue((height - 1) * width + x); }
+            for (let y = 1; y < height - 1; y++) { addToQueue(y * width); addToQueue(y * width + width - 1); }
+        }
+
+        while (head < tail) {
+            const i = queue[head++];
+            mask[i] = 0;
+            const x = i % width;
+            if (i + width < pixelCount) addToQueue(i + width);
+            if (i >= width) addToQueue(i - width);
+            if (x + 1 < width) addToQueue(i + 1);
+            if (x > 0) addToQueue(i - 1);
+        }
+    }
+    onProgress?.(0.7);
+
+    // --- Edge Feathering ---
+    if (options.feather > 0) {
+        // Pixels that were already transparent count as background too.
+        const isClear = (i: number) => mask[i] === 0 || data[i * 4 + 3] === 0;
+        const feathered: { index: number; value: number }[] = [];
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                if (isClear(i)) continue;
+
+                const isEdge = (y + 1 < height && isClear(i + width)) || (y > 0 && isClear(i - width))
+                    || (x + 1 < width && isClear(i + 1)) || (x > 0 && isClear(i - 1));
+                if (!isEdge) continue;
+
+                const excess = distances[i] - options.tolerance;
+                if (excess < options.feather) feathered.push({ index: i, value: 255 * Math.max(0, excess) / options.feather });
+            }
+        }
+        // Applied afterwards so feathering one pixel doesn't turn its neighbours into edges.
+        for (const { index, value } of feathered) mask[index] = value;
+    }
+    onProgress?.(1);
+    return mask;
+}
+
+// Despill to store with a mask computed from `options`; null when it is turned off.
+export const getDespillSettings = (options: BackgroundKeyOptions): DespillSettings | null =>
+    options.despill > 0 ? { colors: options.colors, strength: options.despill } : null;
+
+// Removes the key colors' cast from the edges of an already masked RGBA buffer, in place: the
+// channel a key color is dominant in is pulled down towards the larger of the other two.
+export function despillEdges(data: Uint8ClampedArray, width: number, height: number, settings: DespillSettings) {
+    const channels = new Set<number>();
+    for (const key of settings.colors.map(hexToRgb)) {
+        if (!key) continue;
+        const rgb = [key.r, key.g, key.b];
+        if (Math.max(...rgb) - Math.min(...rgb) < NEUTRAL_KEY_SPREAD) continue;
+        channels.add(rgb.indexOf(Math.max(...rgb)));
+    }
+    if (channels.size === 0 || settings.strength <= 0) return;
+
+    // Band of visible pixels within DESPILL_RADIUS of a transparent one, grown one ring at a time.
+    const pixelCount = width * height;
+    const band = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) if (data[i * 4 + 3] < 255) band[i] = 1;
+    for (let ring = 0; ring < DESPILL_RADIUS; ring++) {
+        const previous = band.slice();
+        for (let i = 0; i < pixelCount; i++) {
+            if (previous[i]) continue;
+            const x = i % width;
+            if ((x > 0 && previous[i - 1]) || (x + 1 < width && previous[i + 1]) || (i >= width && previous[i - width]) || (i + width < pixelCount && previous[i + width])) {
+                band[i] = 1;
+            }
+        }
+    }
+
+    for (let i = 0; i < pixelCount; i++) {
+        const p = i * 4;
+        if (!band[i] || data[p + 3] === 0) continue;
+        for (const c of channels) {
+            const limit = Math.max(data[p + (c + 1) % 3], data[p + (c + 2) % 3]);
+            const spill = data[p + c] - limit;
+            if (spill > 0) data[p + c] -= spill * settings.strength;
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import { isAbortError } from './workerPool';
+
+export type BatchStatus = 'running' | 'paused' | 'cancelled' | 'done';
+
+export interface BatchFailure<T> {
+    index: number;
+    item: T;
+    message: string;
+}
+
+export interface BatchResult<T, R> {
+    // Indexed like the input; undefined for items that failed or never ran because the job was cancelled.
+    results: (R | undefined)[];
+    failures: BatchFailure<T>[];
+    cancelled: boolean;
+}
+
+// A batch of independent items processed a few at a time. Items that throw are recorded as failures
+// and the batch carries on; pausing stops new items from starting, cancelling also aborts the ones in
+// flight through `signal`.
+export class BatchJob {
+    private controller = new AbortController();
+    private status: BatchStatus = 'running';
+    private resumeWaiters: (() => void)[] = [];
+
+    constructor(private onStatusChange?: (status: BatchStatus) => void) {}
+
+    get signal() {
+        return this.controller.signal;
+    }
+
+    get isPaused() {
+        return this.status === 'paused';
+    }
+
+    pause() {
+        if (this.status === 'running') this.setStatus('paused');
+    }
+
+    resume() {
+        if (this.status !== 'paused') return;
+        this.setStatus('running');
+        this.wakeWaiters();
+    }
+
+    cancel() {
+        if (this.status === 'cancelled' || this.status === 'done') return;
+        this.setStatus('cancelled');
+        this.controller.abort();
+        this.wakeWaiters();
+    }
+
+    async run<T, R>(items: T[], process: (item: T, index: number, signal: AbortSignal) => Promise<R>, concurrency = 1): Promise<BatchResult<T, R>> {
+        const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+        const failures: BatchFailure<T>[] = [];
+        let next = 0;
+
+        const lane = async () => {
+            while (next < items.length) {
+                await this.waitWhilePaused();
+                if (this.signal.aborted) return;
+                const index = next++;
+                if (index >= items.length) return;
+                try {
+                    results[index] = await process(items[index], index, this.signal);
+                } catch (error) {
+                    if (isAbortError(error) && this.signal.aborted) return;
+                    failures.push({ index, item: items[index], message: error instanceof Error ? error.message : String(error) });
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+
+        const cancelled = this.signal.aborted;
+        if (!cancelled) this.setStatus('done');
+        failures.sort((a, b) => a.index - b.index);
+        return { results, failures, cancelled };
+    }
+
+    // Aborts whatever is still running once the caller is done with the job.
+    dispose() {
+        this.controller.abort();
+        this.wakeWaiters();
+    }
+
+    private waitWhilePaused() {
+        if (this.status !== 'paused') return Promise.resolve();
+        return new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+
+    private wakeWaiters() {
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(wake => wake());
+    }
+
+    private setStatus(status: BatchStatus) {
+        this.status = status;
+        this.onStatusChange?.(status);
+    }
+}
@@ -0,0 +1,42 @@
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export const hexToRgb = (hex: string): RGB | null => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result ? { r: parseInt(result[1], 16), g: parseInt(result[2], 16), b: parseInt(result[3], 16) } : null;
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+    '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+export const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) =>
+    Math.sqrt(Math.pow(r1 - r2, 2) + Math.pow(g1 - g2, 2) + Math.pow(b1 - b2, 2));
+
+export interface Lab {
+    l: number;
+    a: number;
+    b: number;
+}
+
+// sRGB channel value (0-255) to linear light, precomputed since it runs for every pixel.
+const SRGB_TO_LINEAR = new Float32Array(256).map((_, i) => {
+    const c = i / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const labF = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+// CIE L*a*b* under D65.
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+    const lr = SRGB_TO_LINEAR[r], lg = SRGB_TO_LINEAR[g], lb = SRGB_TO_LINEAR[b];
+    const fx = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+    const fy = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+    const fz = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+    return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+// CIE76 ΔE: Euclidean distance in Lab, roughly 2.3 for a just-noticeable difference.
+export const deltaE = (p: Lab, q: Lab) => Math.sqrt((p.l - q.l) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2);
@@ -0,0 +1,100 @@
+import type { CropConstraints, CropHandle, CropRect } from '../types';
+
+export const DEFAULT_MIN_SIZE = 20;
+
+export const DEFAULT_CONSTRAINTS: CropConstraints = {
+    aspectRatio: null,
+    fixedSize: null,
+    minWidth: DEFAULT_MIN_SIZE,
+    minHeight: DEFAULT_MIN_SIZE,
+    maxWidth: null,
+    maxHeight: null,
+    snap: 1,
+};
+
+export const ASPECT_RATIO_PRESETS: { label: string; ratio: { width: number; height: number } }[] = [
+    { label: '1:1', ratio: { width: 1, height: 1 } },
+    { label: '4:3', ratio: { width: 4, height: 3 } },
+    { label: '3:4', ratio: { width: 3, height: 4 } },
+    { label: '16:9', ratio: { width: 16, height: 9 } },
+    { label: '9:16', ratio: { width: 9, height: 16 } },
+    { label: '3:2', ratio: { width: 3, height: 2 } },
+];
+
+type Rect = Pick<CropRect, 'x' | 'y' | 'width' | 'height'>;
+
+// Fits a proposed rect to the crop's constraints and the image bounds. `start` is the rect before the
+// interaction and `handle` says which edges moved, so the opposite edges stay anchored while resizing.
+export function constrainCrop<T extends Rect>(proposed: T, start: Rect, handle: CropHandle, constraints: CropConstraints | undefined, bounds: { width: number; height: number }): T {
+    const c = { ...DEFAULT_CONSTRAINTS, ...constraints };
+    const snap = Math.max(1, Math.round(c.snap));
+    const snapDown = (v: number) => snap > 1 ? Math.floor(v / snap) * snap : v;
+    const snapNearest = (v: number) => snap > 1 ? Math.round(v / snap) * snap : v;
+
+    let width = proposed.width;
+    let height = proposed.height;
+    let x = proposed.x;
+    let y = proposed.y;
+
+    if (c.fixedSize) {
+        width = c.fixedSize.width;
+        height = c.fixedSize.height;
+    }
+
+    const isMove = handle === 'move' || !!c.fixedSize;
+    if (isMove) {
+        width = Math.min(width, bounds.width);
+        height = Math.min(height, bounds.height);
+        if (handle !== 'move') {
+            // A resize handle on a fixed-size crop keeps the anchored edges in place.
+            if (handle.includes('w')) x = start.x + start.width - width;
+            if (handle.includes('n')) y = start.y + start.height - height;
+            if (!handle.includes('w')) x = start.x;
+            if (!handle.includes('n')) y = start.y;
+        }
+        x = Math.max(0, Math.min(snapNearest(x), bounds.width - width));
+        y = Math.max(0, Math.min(snapNearest(y), bounds.height - height));
+        return { ...proposed, x, y, width, height };
+    }
+
+    const movesLeft = handle.includes('w');
+    const movesTop = handle.includes('n');
+    const movesHorizontal = handle.includes('e') || movesLeft;
+    const movesVertical = handle.includes('s') || movesTop;
+
+    // Anchored edges, snapped so the whole rect lands on the grid.
+    const right = snapNearest(start.x + start.width);
+    const bottom = snapNearest(start.y + start.height);
+    const left = snapNearest(start.x);
+    const top = snapNearest(start.y);
+    const availableWidth = movesLeft ? right : bounds.width - left;
+    const availableHeight = movesTop ? bottom : bounds.height - top;
+
+    const ratio = c.aspectRatio && c.aspectRatio.width > 0 && c.aspectRatio.height > 0 ? c.aspectRatio.width / c.aspectRatio.height : null;
+    if (ratio) {
+        if (movesHorizontal && !movesVertical) height = width / ratio;
+        else if (movesVertical && !movesHorizontal) width = height * ratio;
+        else if (width / ratio >= height) height = width / ratio;
+        else width = height * ratio;
+    }
+
+    const minWidth = Math.max(1, c.minWidth, snap);
+    const minHeight = Math.max(1, c.minHeight, snap);
+    const maxWidth = Math.min(availableWidth, c.maxWidth ?? Infinity);
+    const maxHeight = Math.min(availableHeight, c.maxHeight ?? Infinity);
+
+    width = Math.max(minWidth, Math.min(width, maxWidth));
+    if (ratio) height = width / ratio;
+    height = Math.max(minHeight, Math.min(height, maxHeight));
+    if (ratio) {
+        width = Math.min(height * ratio, maxWidth);
+        height = width / ratio;
+    }
+
+    width = Math.max(snap, Math.min(snapNearest(width), snapDown(maxWidth)));
+    height = Math.max(snap, Math.min(snapNearest(height), snapDown(maxHeight)));
+
+    x = movesLeft ? right - width : left;
+    y = movesTop ? bottom - height : top;
+    return { ...proposed, x: Math.max(0, x), y: Math.max(0, y), width, height };
+}
@@ -0,0 +1,34 @@
+import type { CropPreset } from '../types';
+import { validateSavedCrops } from './project';
+
+const STORAGE_KEY = 'bulk-image-cropper.crop-presets';
+
+// Presets saved in this browser, newest first. Unreadable entries are skipped.
+export function loadCropPresets(): CropPreset[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap((preset: CropPreset) => {
+            if (!(preset?.imageSize?.width > 0 && preset.imageSize.height > 0)) return [];
+            try {
+                return [{ ...preset, crops: validateSavedCrops(preset.crops) }];
+            } catch {
+                return [];
+            }
+        });
+    } catch (error) {
+        console.error("Could not read crop presets:", error);
+        return [];
+    }
+}
+
+// Returns false when the browser refuses to store them, e.g. in private mode or when storage is full.
+export function saveCropPresets(presets: CropPreset[]): boolean {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+        return true;
+    } catch (error) {
+        console.error("Could not save crop presets:", error);
+        return false;
+    }
+}
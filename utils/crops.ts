@@ -0,0 +1,107 @@
+import type { AlignmentOffsets, CropRect, CropOverride, CropOverrides, ImageFile } from '../types';
+
+export const clampCropToImage = (crop: CropRect, image: Pick<ImageFile, 'width' | 'height'>): CropRect => {
+    const width = Math.max(1, Math.min(crop.width, image.width));
+    const height = Math.max(1, Math.min(crop.height, image.height));
+    return {
+        ...crop,
+        x: Math.max(0, Math.min(crop.x, image.width - width)),
+        y: Math.max(0, Math.min(crop.y, image.height - height)),
+        width,
+        height,
+    };
+};
+
+export const getCropOverride = (overrides: CropOverrides, imageId: string, cropId: string): CropOverride | undefined =>
+    overrides[imageId]?.[cropId];
+
+export const hasCropOverrides = (overrides: CropOverrides, imageId: string) =>
+    Object.keys(overrides[imageId] ?? {}).length > 0;
+
+// The global crop shifted along with the image's registered content, before any manual override.
+export const getAlignedCrop = (crop: CropRect, imageId: string, alignment: AlignmentOffsets): CropRect => {
+    const offset = alignment[imageId];
+    return offset ? { ...crop, x: crop.x + offset.dx, y: crop.y + offset.dy } : crop;
+};
+
+// The rect a global crop actually covers on one image once alignment and its override are applied.
+// Offset overrides are relative to the aligned crop; full-rect overrides are absolute.
+export function resolveCrop(crop: CropRect, image: ImageFile, overrides: CropOverrides, alignment: AlignmentOffsets = {}): CropRect {
+    const aligned = getAlignedCrop(crop, image.id, alignment);
+    const override = getCropOverride(overrides, image.id, crop.id);
+    if (!override) return clampCropToImage(aligned, image);
+    if (override.kind === 'offset') {
+        return clampCropToImage({ ...aligned, x: aligned.x + override.dx, y: aligned.y + override.dy }, image);
+    }
+    return clampCropToImage({ ...crop, x: override.x, y: override.y, width: override.width, height: override.height }, image);
+}
+
+// Stores an edit made on one image as the smallest override that reproduces it:
+// a pure offset when the size is unchanged, otherwise the full rect.
+export function createCropOverride(globalCrop: CropRect, edited: CropRect): CropOverride | null {
+    const dx = edited.x - globalCrop.x;
+    const dy = edited.y - globalCrop.y;
+    const sameSize = Math.abs(edited.width - globalCrop.width) < 0.5 && Math.abs(edited.height - globalCrop.height) < 0.5;
+    if (sameSize) {
+        if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) return null;
+        return { kind: 'offset', dx, dy };
+    }
+    return { kind: 'rect', x: edited.x, y: edited.y, width: edited.width, height: edited.height };
+}
+
+export function setCropOverride(overrides: CropOverrides, imageId: string, cropId: string, override: CropOverride | null): CropOverrides {
+    const forImage = { ...(overrides[imageId] ?? {}) };
+    if (override) forImage[cropId] = override;
+    else delete forImage[cropId];
+
+    const next = { ...overrides };
+    if (Object.keys(forImage).length > 0) next[imageId] = forImage;
+    else delete next[imageId];
+    return next;
+}
+
+// Drops overrides for crops or images that no longer exist. Returns the same object when nothing was dropped.
+export function pruneCropOverrides(overrides: CropOverrides, images: ImageFile[], crops: CropRect[]): CropOverrides {
+    const imageIds = new Set(images.map(img => img.id));
+    const cropIds = new Set(crops.map(c => c.id));
+    const next: CropOverrides = {};
+    let changed = false;
+    for (const [imageId, forImage] of Object.entries(overrides)) {
+        if (!imageIds.has(imageId)) {
+            changed = true;
+            continue;
+        }
+        const kept = Object.fromEntries(Object.entries(forImage).filter(([cropId]) => cropIds.has(cropId)));
+        if (Object.keys(kept).length !== Object.keys(forImage).length) changed = true;
+        if (Object.keys(kept).length > 0) next[imageId] = kept;
+    }
+    return changed ? next : overrides;
+}
+
+export const CROP_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#22d3ee', '#818cf8', '#e879f9'];
+
+const newCropId = () => `crop-${Date.now()}-${Math.random()}`;
+
+// A copy of `crop`, nudged down and right so it doesn't sit exactly on the original. Copies start unlocked and visible.
+export function duplicateCrop(crop: CropRect, name: string, image: Pick<ImageFile, 'width' | 'height'>): CropRect {
+    const offset = Math.max(4, Math.round(Math.min(crop.width, crop.height) * 0.1));
+    return clampCropToImage({ ...crop, id: newCropId(), name: `${name} copy`, x: crop.x + offset, y: crop.y + offset, locked: false, hidden: false }, image);
+}
+
+// A copy of `crop` reflected across the image's vertical ('horizontal') or horizontal ('vertical') center line,
+// for symmetric layouts.
+export function mirrorCrop(crop: CropRect, name: string, image: Pick<ImageFile, 'width' | 'height'>, axis: 'horizontal' | 'vertical'): CropRect {
+    const mirrored = axis === 'horizontal'
+        ? { x: image.width - crop.x - crop.width }
+        : { y: image.height - crop.y - crop.height };
+    return clampCropToImage({ ...crop, ...mirrored, id: newCropId(), name: `${name} mirrored`, locked: false, hidden: false }, image);
+}
+
+// Moves the crop at `from` to position `to`, shifting the ones in between.
+export function moveCrop(crops: CropRect[], from: number, to: number): CropRect[] {
+    if (from === to || from < 0 || from >= crops.length) return crops;
+    const next = [...crops];
+    const [moved] = next.splice(from, 1);
+    next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+    return next;
+}
@@ -0,0 +1,145 @@
+import type { AutoDetectOptions, CropRect } from '../types';
+import { hexToRgb, colorDistance } from './color';
+
+export type Bounds = Pick<CropRect, 'x' | 'y' | 'width' | 'height'>;
+
+export const DEFAULT_AUTO_DETECT_OPTIONS: AutoDetectOptions = {
+    mode: 'transparent',
+    color: '#ffffff',
+    colorTolerance: 35,
+    alphaThreshold: 10,
+    minWidth: 6,
+    minHeight: 6,
+    minArea: 0,
+    padding: 0,
+    connectivity: 4,
+    mergeDistance: 0,
+    frames: 'current',
+};
+
+interface Component extends Bounds {
+    // Foreground pixels in the component.
+    area: number;
+}
+
+// Empty space between two boxes along the axis where they are furthest apart; 0 or less when they touch.
+const gapBetween = (a: Bounds, b: Bounds) => Math.max(
+    Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width),
+    Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height),
+);
+
+const unionComponents = (a: Component, b: Component): Component => {
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    return {
+        x, y,
+        width: Math.max(a.x + a.width, b.x + b.width) - x,
+        height: Math.max(a.y + a.height, b.y + b.height) - y,
+        area: a.area + b.area,
+    };
+};
+
+// Merges components until no two are within `distance` of each other; merged boxes can reach
+// further ones, hence the repeat.
+function mergeNearby(components: Component[], distance: number): Component[] {
+    const merged = [...components];
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let i = 0; i < merged.length; i++) {
+            for (let j = merged.length - 1; j > i; j--) {
+                if (gapBetween(merged[i], merged[j]) <= distance) {
+                    merged[i] = unionComponents(merged[i], merged[j]);
+                    merged.splice(j, 1);
+                    changed = true;
+                }
+            }
+        }
+    }
+    return merged;
+}
+
+// Whether the pixel at byte offset `index` of an RGBA buffer is background under `options`. The
+// 'auto' mode has to be resolved to a concrete one first; until then nothing is background.
+export function createBackgroundTest(data: Uint8ClampedArray, options: AutoDetectOptions) {
+    const bgColorRgb = options.mode === 'color' ? hexToRgb(options.color) : null;
+    return (index: number) => {
+        if (options.mode === 'transparent') {
+            return data[index + 3] < options.alphaThreshold;
+        }
+        if (bgColorRgb) {
+            return colorDistance(data[index], data[index + 1], data[index + 2], bgColorRgb.r, bgColorRgb.g, bgColorRgb.b) < options.colorTolerance;
+        }
+        return false;
+    };
+}
+
+// Bounding boxes of the connected foreground regions of an RGBA buffer.
+export function findObjectBounds(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: AutoDetectOptions,
+    onProgress?: (fraction: number) => void
+): Bounds[] {
+    const isBackground = createBackgroundTest(data, options);
+    const visited = new Uint8Array(width * height);
+    // Every pixel is queued at most once, so one flat buffer of pixel indices serves all components.
+    const queue = new Int32Array(width * height);
+    const diagonal = options.connectivity === 8;
+    const components: Component[] = [];
+
+    for (let y = 0; y < height; y++) {
+        if (onProgress && (y & 63) === 0) onProgress(y / height);
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (visited[i]) continue;
+            visited[i] = 1;
+            if (isBackground(i * 4)) continue;
+
+            let minX = x, minY = y, maxX = x, maxY = y;
+            let head = 0, tail = 0;
+            queue[tail++] = i;
+
+            while (head < tail) {
+                const ci = queue[head++];
+                const cx = ci % width;
+                const cy = (ci - cx) / width;
+                if (cx < minX) minX = cx;
+                if (cx > maxX) maxX = cx;
+                if (cy < minY) minY = cy;
+                if (cy > maxY) maxY = cy;
+
+                if (cy + 1 < height) tail = visit(ci + width, tail);
+                if (cy > 0) tail = visit(ci - width, tail);
+                if (cx + 1 < width) tail = visit(ci + 1, tail);
+                if (cx > 0) tail = visit(ci - 1, tail);
+                if (diagonal) {
+                    if (cy + 1 < height && cx + 1 < width) tail = visit(ci + width + 1, tail);
+                    if (cy + 1 < height && cx > 0) tail = visit(ci + width - 1, tail);
+                    if (cy > 0 && cx + 1 < width) tail = visit(ci - width + 1, tail);
+                    if (cy > 0 && cx > 0) tail = visit(ci - width - 1, tail);
+                }
+            }
+            components.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, area: tail });
+        }
+    }
+
+    // Merging comes before the size filter so small detached parts join their sprite instead of being dropped.
+    const merged = options.mergeDistance > 0 ? mergeNearby(components, options.mergeDistance) : components;
+    const padding = Math.max(0, options.padding);
+    const boundingBoxes = merged
+        .filter(c => c.width >= options.minWidth && c.height >= options.minHeight && c.area >= options.minArea)
+        .map(({ x, y, width: w, height: h }) => {
+            const left = Math.max(0, x - padding), top = Math.max(0, y - padding);
+            return { x: left, y: top, width: Math.min(width, x + w + padding) - left, height: Math.min(height, y + h + padding) - top };
+        });
+    onProgress?.(1);
+    return boundingBoxes;
+
+    function visit(ni: number, tail: number) {
+        if (visited[ni] || isBackground(ni * 4)) return tail;
+        visited[ni] = 1;
+        queue[tail] = ni;
+        return tail + 1;
+    }
+}
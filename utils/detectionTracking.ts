@@ -0,0 +1,105 @@
+import type { AlignmentOffsets, CropOverrides, CropRect, DetectionFrames, DetectionResult, ImageFile } from '../types';
+import type { Bounds } from './detection';
+import { createCropOverride, getAlignedCrop, setCropOverride } from './crops';
+
+// One object followed through the frames; null where it wasn't found.
+type Track = (Bounds | null)[];
+
+const area = (b: Bounds) => b.width * b.height;
+
+const intersect = (a: Bounds, b: Bounds): Bounds | null => {
+    const x = Math.max(a.x, b.x), y = Math.max(a.y, b.y);
+    const right = Math.min(a.x + a.width, b.x + b.width), bottom = Math.min(a.y + a.height, b.y + b.height);
+    return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null;
+};
+
+const union = (a: Bounds, b: Bounds): Bounds => {
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+// How well `box` continues a track last seen at `last`: overlap first, then closeness of the centers
+// relative to the boxes' size. Null when they are too far apart to be the same object.
+function matchScore(last: Bounds, box: Bounds): number | null {
+    const overlap = intersect(last, box);
+    if (overlap) return 1 + area(overlap) / (area(last) + area(box) - area(overlap));
+    const distance = Math.hypot(last.x + last.width / 2 - box.x - box.width / 2, last.y + last.height / 2 - box.y - box.height / 2);
+    const reach = Math.max(last.width, last.height, box.width, box.height);
+    return distance <= reach ? 1 - distance / reach : null;
+}
+
+// Follows objects from frame to frame by greedily pairing each frame's boxes with the tracks they
+// continue best. Boxes that continue no track start a new one; tracks may skip frames.
+export function trackObjects(frames: Bounds[][]): Track[] {
+    const tracks: Track[] = [];
+    const lastSeen: Bounds[] = [];
+    frames.forEach((boxes, frame) => {
+        const pairs: { track: number; box: number; score: number }[] = [];
+        lastSeen.forEach((last, track) => boxes.forEach((box, b) => {
+            const score = matchScore(last, box);
+            if (score !== null) pairs.push({ track, box: b, score });
+        }));
+        pairs.sort((a, b) => b.score - a.score);
+
+        const usedTracks = new Set<number>(), usedBoxes = new Set<number>();
+        for (const { track, box } of pairs) {
+            if (usedTracks.has(track) || usedBoxes.has(box)) continue;
+            usedTracks.add(track); usedBoxes.add(box);
+            tracks[track][frame] = boxes[box];
+            lastSeen[track] = boxes[box];
+        }
+        boxes.forEach((box, b) => {
+            if (usedBoxes.has(b)) return;
+            const track: Track = new Array(frames.length).fill(null);
+            track[frame] = box;
+            tracks.push(track);
+            lastSeen.push(box);
+        });
+    });
+    return tracks;
+}
+
+const newCropId = () => `crop-${Date.now()}-${Math.random()}`;
+
+// Turns the boxes detected on every image into crops: one per tracked object, covering all of its
+// frames ('union'), only the part common to them ('intersection'), or its box in each frame through
+// per-image overrides ('track'). `referenceIndex` is the image whose boxes the global crops follow in
+// 'track' mode when the object appears in it. Boxes are tracked and combined with each frame's
+// alignment offset taken out, the same space global crops live in.
+export function combineFrameDetections(images: ImageFile[], frames: Bounds[][], mode: Exclude<DetectionFrames, 'current'>, referenceIndex: number, alignmentOffsets: AlignmentOffsets = {}): DetectionResult {
+    const alignedFrames = frames.map((boxes, i) => {
+        const offset = alignmentOffsets[images[i].id];
+        return offset ? boxes.map(box => ({ ...box, x: Math.round(box.x - offset.dx), y: Math.round(box.y - offset.dy) })) : boxes;
+    });
+    const tracks = trackObjects(alignedFrames);
+    const crops: CropRect[] = [];
+    let overrides: CropOverrides = {};
+    const kept: Track[] = [];
+
+    for (const track of tracks) {
+        const boxes = track.filter((box): box is Bounds => box !== null);
+        if (mode === 'union' || mode === 'intersection') {
+            let combined: Bounds | null = boxes[0];
+            for (const box of boxes.slice(1)) combined = combined && (mode === 'union' ? union(combined, box) : intersect(combined, box));
+            // Objects that move too far have no area in common; there is nothing to crop for them.
+            if (!combined) continue;
+            crops.push({ id: newCropId(), ...combined });
+        } else {
+            const crop: CropRect = { id: newCropId(), ...(track[referenceIndex] ?? boxes[0]) };
+            crops.push(crop);
+            track.forEach((box, i) => {
+                if (!box) return;
+                // Both sides get the frame's alignment back, so the override only holds the object's own movement.
+                const edited = getAlignedCrop({ ...crop, ...box }, images[i].id, alignmentOffsets);
+                overrides = setCropOverride(overrides, images[i].id, crop.id, createCropOverride(getAlignedCrop(crop, images[i].id, alignmentOffsets), edited));
+            });
+        }
+        kept.push(track);
+    }
+
+    return {
+        crops,
+        overrides,
+        frames: images.map((image, i) => ({ imageId: image.id, matched: kept.filter(track => track[i]).length })),
+    };
+}
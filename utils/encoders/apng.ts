@@ -0,0 +1,103 @@
+import { ByteWriter } from './byteWriter';
+
+export interface ApngEncodeOptions {
+    // Display time of each frame in milliseconds.
+    delays: number[];
+    // Total number of plays; 0 loops forever.
+    loopCount: number;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const writeChunk = (out: ByteWriter, type: string, data: Uint8Array) => {
+    const body = new ByteWriter();
+    body.ascii(type);
+    body.bytes(data);
+    const bytes = body.toUint8Array();
+    out.u32be(data.length);
+    out.bytes(bytes);
+    out.u32be(crc32(bytes));
+};
+
+// The "deflate" format of CompressionStream is a zlib stream, which is exactly what IDAT/fdAT hold.
+const zlibCompress = async (data: Uint8Array) => {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Scanlines with the "Sub" filter, which compresses sprite art well at negligible cost.
+const filterScanlines = (frame: ImageData) => {
+    const { width, height, data } = frame;
+    const stride = width * 4;
+    const out = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        const row = y * (stride + 1);
+        out[row] = 1;
+        for (let i = 0; i < stride; i++) {
+            const value = data[y * stride + i];
+            const left = i >= 4 ? data[y * stride + i - 4] : 0;
+            out[row + 1 + i] = (value - left) & 0xff;
+        }
+    }
+    return out;
+};
+
+export async function encodeApng(frames: ImageData[], options: ApngEncodeOptions): Promise<Uint8Array> {
+    if (frames.length === 0) throw new Error("Cannot encode an APNG without frames.");
+    const { width, height } = frames[0];
+    const out = new ByteWriter();
+    out.bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const ihdr = new ByteWriter();
+    ihdr.u32be(width);
+    ihdr.u32be(height);
+    ihdr.bytes([8, 6, 0, 0, 0]); // 8-bit RGBA, deflate, adaptive filtering, no interlace.
+    writeChunk(out, 'IHDR', ihdr.toUint8Array());
+
+    const actl = new ByteWriter();
+    actl.u32be(frames.length);
+    actl.u32be(options.loopCount);
+    writeChunk(out, 'acTL', actl.toUint8Array());
+
+    let sequence = 0;
+    for (let i = 0; i < frames.length; i++) {
+        const fctl = new ByteWriter();
+        fctl.u32be(sequence++);
+        fctl.u32be(width);
+        fctl.u32be(height);
+        fctl.u32be(0);
+        fctl.u32be(0);
+        fctl.u16be(Math.min(65535, Math.max(0, Math.round(options.delays[i] ?? 100))));
+        fctl.u16be(1000);
+        fctl.byte(0); // APNG_DISPOSE_OP_NONE
+        fctl.byte(0); // APNG_BLEND_OP_SOURCE
+        writeChunk(out, 'fcTL', fctl.toUint8Array());
+
+        const compressed = await zlibCompress(filterScanlines(frames[i]));
+        if (i === 0) {
+            writeChunk(out, 'IDAT', compressed);
+        } else {
+            const fdat = new ByteWriter();
+            fdat.u32be(sequence++);
+            fdat.bytes(compressed);
+            writeChunk(out, 'fdAT', fdat.toUint8Array());
+        }
+    }
+
+    writeChunk(out, 'IEND', new Uint8Array(0));
+    return out.toUint8Array();
+}
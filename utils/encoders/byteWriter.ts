@@ -0,0 +1,39 @@
+// Growable little/big-endian byte buffer shared by the binary encoders.
+export class ByteWriter {
+    private buffer = new Uint8Array(1 << 16);
+    length = 0;
+
+    private ensure(extra: number) {
+        if (this.length + extra <= this.buffer.length) return;
+        let size = this.buffer.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+    }
+
+    byte(value: number) {
+        this.ensure(1);
+        this.buffer[this.length++] = value & 0xff;
+    }
+
+    u16le(value: number) { this.byte(value); this.byte(value >>> 8); }
+    u24le(value: number) { this.byte(value); this.byte(value >>> 8); this.byte(value >>> 16); }
+    u32le(value: number) { this.u16le(value); this.u16le(value >>> 16); }
+    u16be(value: number) { this.byte(value >>> 8); this.byte(value); }
+    u32be(value: number) { this.u16be(value >>> 16); this.u16be(value); }
+
+    bytes(data: ArrayLike<number>) {
+        this.ensure(data.length);
+        this.buffer.set(data, this.length);
+        this.length += data.length;
+    }
+
+    ascii(text: string) {
+        for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+    }
+
+    toUint8Array() {
+        return this.buffer.slice(0, this.length);
+    }
+}
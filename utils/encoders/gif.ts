@@ -0,0 +1,242 @@
+import { ByteWriter } from './byteWriter';
+
+export interface GifEncodeOptions {
+    // Display time of each frame in milliseconds.
+    delays: number[];
+    // Total number of plays; 0 loops forever.
+    loopCount: number;
+    dither: boolean;
+}
+
+const MAX_COLORS = 255;
+const TRANSPARENT_INDEX = 255;
+const ALPHA_CUTOFF = 128;
+const MAX_PALETTE_SAMPLES = 250000;
+
+// Median-cut quantization over opaque pixels sampled from every frame, so all frames share
+// one global palette and colors don't flicker between frames.
+const buildPalette = (frames: ImageData[]): Uint8Array => {
+    const totalPixels = frames.reduce((sum, f) => sum + f.width * f.height, 0);
+    const step = Math.max(1, Math.floor(totalPixels / MAX_PALETTE_SAMPLES));
+    const samples: number[] = [];
+    for (const frame of frames) {
+        const data = frame.data;
+        for (let i = 0; i < data.length; i += 4 * step) {
+            if (data[i + 3] >= ALPHA_CUTOFF) samples.push((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+        }
+    }
+    const colors = Uint32Array.from(samples);
+    if (colors.length === 0) return new Uint8Array(3);
+
+    const channel = (c: number, shift: number) => (c >>> shift) & 0xff;
+    const boxes: { start: number; end: number; range: number; shift: number }[] = [];
+    const measure = (start: number, end: number) => {
+        let best = { range: -1, shift: 16 };
+        for (const shift of [16, 8, 0]) {
+            let min = 255, max = 0;
+            for (let i = start; i < end; i++) {
+                const v = channel(colors[i], shift);
+                if (v < min) min = v;
+                if (v > max) max = v;
+            }
+            if (max - min > best.range) best = { range: max - min, shift };
+        }
+        return { start, end, ...best };
+    };
+    boxes.push(measure(0, colors.length));
+
+    while (boxes.length < MAX_COLORS) {
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            if (boxes[i].end - boxes[i].start > 1 && boxes[i].range > 0 && (target < 0 || boxes[i].range > boxes[target].range)) target = i;
+        }
+        if (target < 0) break;
+        const box = boxes[target];
+        colors.subarray(box.start, box.end).sort((a, b) => channel(a, box.shift) - channel(b, box.shift));
+        const mid = (box.start + box.end) >> 1;
+        boxes.splice(target, 1, measure(box.start, mid), measure(mid, box.end));
+    }
+
+    const palette = new Uint8Array(boxes.length * 3);
+    boxes.forEach((box, i) => {
+        let r = 0, g = 0, b = 0;
+        for (let j = box.start; j < box.end; j++) {
+            r += channel(colors[j], 16);
+            g += channel(colors[j], 8);
+            b += channel(colors[j], 0);
+        }
+        const count = box.end - box.start;
+        palette[i * 3] = Math.round(r / count);
+        palette[i * 3 + 1] = Math.round(g / count);
+        palette[i * 3 + 2] = Math.round(b / count);
+    });
+    return palette;
+};
+
+const createColorMatcher = (palette: Uint8Array) => {
+    const count = palette.length / 3;
+    const cache = new Int16Array(1 << 15).fill(-1);
+    return (r: number, g: number, b: number) => {
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        if (cache[key] >= 0) return cache[key];
+        let best = 0, bestDistance = Infinity;
+        for (let i = 0; i < count; i++) {
+            const dr = r - palette[i * 3], dg = g - palette[i * 3 + 1], db = b - palette[i * 3 + 2];
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) { bestDistance = distance; best = i; }
+        }
+        cache[key] = best;
+        return best;
+    };
+};
+
+const indexFrame = (frame: ImageData, palette: Uint8Array, match: (r: number, g: number, b: number) => number, dither: boolean) => {
+    const { width, height, data } = frame;
+    const indices = new Uint8Array(width * height);
+    const clamp = (v: number) => v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+
+    if (!dither) {
+        for (let i = 0; i < indices.length; i++) {
+            const p = i * 4;
+            indices[i] = data[p + 3] < ALPHA_CUTOFF ? TRANSPARENT_INDEX : match(data[p], data[p + 1], data[p + 2]);
+        }
+        return indices;
+    }
+
+    // Floyd–Steinberg error diffusion; transparent pixels neither receive nor spread error.
+    const work = new Float32Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+        work[i * 3] = data[i * 4];
+        work[i * 3 + 1] = data[i * 4 + 1];
+        work[i * 3 + 2] = data[i * 4 + 2];
+    }
+    const spread = (x: number, y: number, er: number, eg: number, eb: number, factor: number) => {
+        if (x < 0 || x >= width || y >= height) return;
+        const i = y * width + x;
+        if (data[i * 4 + 3] < ALPHA_CUTOFF) return;
+        work[i * 3] += er * factor;
+        work[i * 3 + 1] += eg * factor;
+        work[i * 3 + 2] += eb * factor;
+    };
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (data[i * 4 + 3] < ALPHA_CUTOFF) {
+                indices[i] = TRANSPARENT_INDEX;
+                continue;
+            }
+            const r = clamp(work[i * 3]), g = clamp(work[i * 3 + 1]), b = clamp(work[i * 3 + 2]);
+            const index = match(r, g, b);
+            indices[i] = index;
+            const er = r - palette[index * 3], eg = g - palette[index * 3 + 1], eb = b - palette[index * 3 + 2];
+            spread(x + 1, y, er, eg, eb, 7 / 16);
+            spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+            spread(x, y + 1, er, eg, eb, 5 / 16);
+            spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+        }
+    }
+    return indices;
+};
+
+// Variable-length LZW as specified by GIF89a, written in 255-byte sub-blocks.
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+    const clearCode = 1 << minCodeSize;
+    const eoiCode = clearCode + 1;
+    let nextCode = eoiCode + 1;
+    let codeSize = minCodeSize + 1;
+    let table = new Map<number, number>();
+
+    const packed = new ByteWriter();
+    let bits = 0, bitCount = 0;
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            packed.byte(bits);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === 4096) {
+            emit(clearCode);
+            nextCode = eoiCode + 1;
+            codeSize = minCodeSize + 1;
+            table = new Map();
+        } else {
+            if (nextCode >= (1 << codeSize)) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+    emit(prefix);
+    emit(eoiCode);
+    if (bitCount > 0) packed.byte(bits);
+
+    out.byte(minCodeSize);
+    const bytes = packed.toUint8Array();
+    for (let i = 0; i < bytes.length; i += 255) {
+        const block = bytes.subarray(i, i + 255);
+        out.byte(block.length);
+        out.bytes(block);
+    }
+    out.byte(0);
+};
+
+export function encodeGif(frames: ImageData[], options: GifEncodeOptions): Uint8Array {
+    if (frames.length === 0) throw new Error("Cannot encode a GIF without frames.");
+    const { width, height } = frames[0];
+    const palette = buildPalette(frames);
+    const match = createColorMatcher(palette);
+    const out = new ByteWriter();
+
+    out.ascii('GIF89a');
+    out.u16le(width);
+    out.u16le(height);
+    out.byte(0xf7); // Global color table, 8 bits per channel, 256 entries.
+    out.byte(0);
+    out.byte(0);
+    const table = new Uint8Array(256 * 3);
+    table.set(palette);
+    out.bytes(table);
+
+    // NETSCAPE2.0 stores the number of *repeats*; omitting it plays the animation once.
+    if (options.loopCount !== 1) {
+        out.bytes([0x21, 0xff, 0x0b]);
+        out.ascii('NETSCAPE2.0');
+        out.bytes([0x03, 0x01]);
+        out.u16le(options.loopCount === 0 ? 0 : options.loopCount - 1);
+        out.byte(0);
+    }
+
+    frames.forEach((frame, i) => {
+        const delay = Math.max(2, Math.round((options.delays[i] ?? 100) / 10));
+        out.bytes([0x21, 0xf9, 0x04]);
+        out.byte((2 << 2) | 1); // Restore to background so transparent areas don't accumulate; transparency on.
+        out.u16le(delay);
+        out.byte(TRANSPARENT_INDEX);
+        out.byte(0);
+
+        out.byte(0x2c);
+        out.u16le(0);
+        out.u16le(0);
+        out.u16le(width);
+        out.u16le(height);
+        out.byte(0);
+        writeLzw(out, indexFrame(frame, palette, match, options.dither), 8);
+    });
+
+    out.byte(0x3b);
+    return out.toUint8Array();
+}
@@ -0,0 +1,83 @@
+import { ByteWriter } from './byteWriter';
+
+export interface WebpEncodeOptions {
+    // Display time of each frame in milliseconds.
+    delays: number[];
+    // Total number of plays; 0 loops forever.
+    loopCount: number;
+    quality: number;
+}
+
+interface RiffChunk { type: string; data: Uint8Array; }
+
+const readChunks = (bytes: Uint8Array): RiffChunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (ascii(0) !== 'RIFF' || ascii(8) !== 'WEBP') throw new Error("The browser did not produce a WebP image.");
+
+    const chunks: RiffChunk[] = [];
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const type = ascii(offset);
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size & 1);
+    }
+    return chunks;
+};
+
+const writeChunk = (out: ByteWriter, type: string, data: Uint8Array) => {
+    out.ascii(type);
+    out.u32le(data.length);
+    out.bytes(data);
+    if (data.length & 1) out.byte(0);
+};
+
+// Encodes each frame with the browser's still-image WebP encoder and re-muxes the
+// bitstreams into ANMF chunks of an extended-format (VP8X) container.
+export async function encodeWebp(frames: HTMLCanvasElement[], options: WebpEncodeOptions): Promise<Uint8Array> {
+    if (frames.length === 0) throw new Error("Cannot encode a WebP without frames.");
+    const { width, height } = frames[0];
+    const out = new ByteWriter();
+
+    const frameChunks: Uint8Array[] = [];
+    for (let i = 0; i < frames.length; i++) {
+        const blob = await new Promise<Blob | null>(resolve => frames[i].toBlob(resolve, 'image/webp', options.quality));
+        if (!blob || blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP images.");
+        const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+
+        const anmf = new ByteWriter();
+        anmf.u24le(0);
+        anmf.u24le(0);
+        anmf.u24le(width - 1);
+        anmf.u24le(height - 1);
+        anmf.u24le(Math.min(0xffffff, Math.max(0, Math.round(options.delays[i] ?? 100))));
+        anmf.byte(0b10); // Do not blend with the previous frame, no disposal.
+        for (const chunk of chunks) {
+            if (chunk.type === 'ALPH' || chunk.type === 'VP8 ' || chunk.type === 'VP8L') writeChunk(anmf, chunk.type, chunk.data);
+        }
+        frameChunks.push(anmf.toUint8Array());
+    }
+
+    const vp8x = new ByteWriter();
+    vp8x.byte(0x10 | 0x02); // Alpha + animation flags.
+    vp8x.u24le(0);
+    vp8x.u24le(width - 1);
+    vp8x.u24le(height - 1);
+
+    const anim = new ByteWriter();
+    anim.u32le(0); // Transparent background.
+    anim.u16le(options.loopCount);
+
+    const body = new ByteWriter();
+    body.ascii('WEBP');
+    writeChunk(body, 'VP8X', vp8x.toUint8Array());
+    writeChunk(body, 'ANIM', anim.toUint8Array());
+    frameChunks.forEach(chunk => writeChunk(body, 'ANMF', chunk));
+
+    const bodyBytes = body.toUint8Array();
+    out.ascii('RIFF');
+    out.u32le(bodyBytes.length);
+    out.bytes(bodyBytes);
+    return out.toUint8Array();
+}
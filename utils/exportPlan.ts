@@ -0,0 +1,122 @@
+import type { CropRect, ImageFile, OutputFormat, OutputFormatOptions, OutputVariant, SpriteTrim } from '../types';
+import { getBaseName, claimUniquePath } from './image';
+import { getCropOutputs, computeOutputGeometry } from './render';
+import { OUTPUT_FORMATS } from './formats';
+import type { TrimSettings } from './trim';
+
+export const FILENAME_TOKENS = ['{name}', '{index}', '{cropName}', '{cropIndex}', '{suffix}', '{w}', '{h}', '{ext}'];
+
+export const FILENAME_TEMPLATE_PRESETS = [
+    { label: 'Folder per crop', template: '{cropName}/{name}{suffix}.{ext}' },
+    { label: 'Folder per image', template: '{name}/{cropName}{suffix}.{ext}' },
+    { label: 'Flat', template: '{name}_{cropName}{suffix}.{ext}' },
+    { label: 'Numbered frames', template: '{cropName}/frame_{index}{suffix}.{ext}' },
+];
+
+export const DEFAULT_FILENAME_TEMPLATE = FILENAME_TEMPLATE_PRESETS[0].template;
+
+export interface ExportEntry {
+    image: ImageFile;
+    crop: CropRect;
+    // The crop as resolved for this image.
+    rect: CropRect;
+    variant: OutputVariant;
+    format: OutputFormat;
+    // Path of the file inside the ZIP.
+    path: string;
+}
+
+const pad = (value: number, total: number) => String(value).padStart(String(total).length, '0');
+
+export const getCropName = (crop: CropRect, cropIndex: number) => crop.name || `crop-${cropIndex + 1}`;
+
+// Characters that are invalid in file names on at least one common OS.
+const sanitizeSegment = (segment: string) => segment.replace(/[<>:"\\|?*\u0000-\u001f]/g, '_').trim();
+
+export function applyFileNameTemplate(template: string, tokens: Record<string, string | number>): string {
+    const filled = template.replace(/\{(\w+)\}/g, (match, key) => key in tokens ? String(tokens[key]) : match);
+    // Slashes create folders; empty, "." and ".." segments are dropped so paths stay inside the ZIP.
+    return filled
+        .split('/')
+        .map(sanitizeSegment)
+        .filter(segment => segment !== '' && segment !== '.' && segment !== '..')
+        .join('/');
+}
+
+// Lists every file the export will write, in order, with its final path. Paths that the template
+// makes collide get a numeric suffix so no file is silently overwritten.
+export function planExport(
+    images: ImageFile[],
+    crops: CropRect[],
+    template: string,
+    resolveCrop: (crop: CropRect, image: ImageFile) => CropRect,
+    getFormat: (image: ImageFile) => OutputFormat
+): ExportEntry[] {
+    const entries: ExportEntry[] = [];
+    const usedPaths = new Set<string>();
+
+    crops.forEach((crop, cropIndex) => {
+        images.forEach((image, imageIndex) => {
+            const rect = resolveCrop(crop, image);
+            const format = getFormat(image);
+            for (const variant of getCropOutputs(crop)) {
+                const { canvasWidth, canvasHeight } = computeOutputGeometry(Math.max(1, rect.width), Math.max(1, rect.height), variant);
+                const { extension } = OUTPUT_FORMATS[format];
+                const templated = applyFileNameTemplate(template, {
+                    name: getBaseName(image.name),
+                    index: pad(imageIndex + 1, images.length),
+                    cropName: getCropName(crop, cropIndex),
+                    cropIndex: pad(cropIndex + 1, crops.length),
+                    suffix: variant.suffix,
+                    w: canvasWidth,
+                    h: canvasHeight,
+                    ext: extension,
+                }) || `${getBaseName(image.name)}.${extension}`;
+                const path = claimUniquePath(templated, usedPaths);
+                entries.push({ image, crop, rect, variant, format, path });
+            }
+        });
+    });
+    return entries;
+}
+
+export interface ExportFailure {
+    entry: ExportEntry;
+    message: string;
+}
+
+// Outcome of the last ZIP export, kept so failed or skipped files can be exported again
+// without redoing the ones that already succeeded.
+export interface ExportReport {
+    entries: ExportEntry[];
+    formatOptions: OutputFormatOptions;
+    // Trimming applied to every file; null exports the full crops.
+    trim: TrimSettings | null;
+    // Encoded file per entry; null until it has been exported successfully.
+    blobs: (Blob | null)[];
+    // Where each trimmed file sat in its untrimmed output, alongside `blobs`.
+    trims: (SpriteTrim | null)[];
+    failures: ExportFailure[];
+    cancelled: boolean;
+    zipName: string;
+}
+
+// Contents of the errors.txt written next to the exported files when some of them failed.
+export function formatErrorReport(failures: ExportFailure[], total: number): string {
+    const lines = [`${failures.length} of ${total} files could not be exported.`, ''];
+    for (const { entry, message } of failures) {
+        lines.push(`${entry.path}`, `    source: ${entry.image.name}`, `    error: ${message}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+// Name of the JSON written next to trimmed files.
+export const TRIM_MANIFEST_NAME = 'trim.json';
+
+// Offsets of the trimmed files, keyed by path, so engines can restore their original positions.
+export function buildTrimManifest(entries: ExportEntry[], trims: (SpriteTrim | null)[]) {
+    return {
+        frames: Object.fromEntries(entries.flatMap((entry, i) => trims[i] ? [[entry.path, trims[i]]] : [])),
+        meta: { app: 'Bulk Image Cropper', version: '1.0' },
+    };
+}
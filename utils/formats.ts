@@ -0,0 +1,62 @@
+import type { OutputFormat, OutputFormatOptions } from '../types';
+import { createCanvas, getContext2D, type AnyCanvas } from './image';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; mimeType: string; extension: string; lossy: boolean }> = {
+    png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+    jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+    webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+    avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true },
+};
+
+export const DEFAULT_FORMAT_OPTIONS: OutputFormatOptions = {
+    format: 'png',
+    quality: { jpeg: 0.92, webp: 0.9, avif: 0.8 },
+    jpegBackground: '#ffffff',
+};
+
+let supportedFormats: Promise<OutputFormat[]> | null = null;
+
+// Browsers silently fall back to PNG for MIME types they can't encode, so a format counts as
+// supported only when a 1×1 canvas actually comes back in it. The result is cached.
+export const detectSupportedFormats = () => {
+    if (!supportedFormats) {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        const formats = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+        supportedFormats = Promise.all(formats.map(format => new Promise<boolean>(resolve => {
+            const { mimeType } = OUTPUT_FORMATS[format];
+            canvas.toBlob(blob => resolve(!!blob && blob.type === mimeType), mimeType);
+        }))).then(results => formats.filter((_, i) => results[i]));
+    }
+    return supportedFormats;
+};
+
+export const formatFromMimeType = (mimeType: string): OutputFormat | null => {
+    const type = mimeType.toLowerCase() === 'image/jpg' ? 'image/jpeg' : mimeType.toLowerCase();
+    const match = (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).find(format => OUTPUT_FORMATS[format].mimeType === type);
+    return match ?? null;
+};
+
+// The format a frame is written in, given the export options and the MIME type of its source image.
+export const resolveOutputFormat = (options: OutputFormatOptions, sourceType: string, supported: OutputFormat[]): OutputFormat => {
+    const format = options.format === 'source' ? formatFromMimeType(sourceType) : options.format;
+    return format && supported.includes(format) ? format : 'png';
+};
+
+export async function encodeCanvas(canvas: AnyCanvas, format: OutputFormat, options: OutputFormatOptions): Promise<Blob | null> {
+    const { mimeType } = OUTPUT_FORMATS[format];
+    let source = canvas;
+    if (format === 'jpeg' && options.jpegBackground) {
+        source = createCanvas(canvas.width, canvas.height);
+        const ctx = getContext2D(source);
+        if (!ctx) return null;
+        ctx.fillStyle = options.jpegBackground;
+        ctx.fillRect(0, 0, source.width, source.height);
+        ctx.drawImage(canvas, 0, 0);
+    }
+    const quality = format === 'png' ? undefined : options.quality[format];
+    // HTMLCanvasElement doesn't exist inside workers, so tell the two apart by their encode method.
+    if ('convertToBlob' in source) return source.convertToBlob({ type: mimeType, quality });
+    return new Promise<Blob | null>(resolve => source.toBlob(resolve, mimeType, quality));
+}
@@ -0,0 +1,121 @@
+import type { AutoDetectOptions, GridSliceOptions } from '../types';
+import { createBackgroundTest, type Bounds } from './detection';
+
+export const DEFAULT_GRID_OPTIONS: GridSliceOptions = {
+    by: 'count',
+    rows: 4,
+    columns: 4,
+    cellWidth: 32,
+    cellHeight: 32,
+    margin: 0,
+    spacingX: 0,
+    spacingY: 0,
+    offsetX: 0,
+    offsetY: 0,
+    skipEmpty: false,
+};
+
+// Cell positions along one axis: `count` cells when dividing by count, otherwise as many `size`
+// cells as fit.
+function layoutAxis(length: number, by: GridSliceOptions['by'], count: number, size: number, margin: number, spacing: number, offset: number) {
+    const start = margin + offset;
+    const available = length - margin - start;
+    if (available <= 0) return { start, size: 0, count: 0 };
+    if (by === 'count') {
+        const cells = Math.max(1, Math.floor(count));
+        return { start, size: Math.floor((available - (cells - 1) * spacing) / cells), count: cells };
+    }
+    const cell = Math.max(1, Math.floor(size));
+    return { start, size: cell, count: Math.max(0, Math.floor((available + spacing) / (cell + spacing))) };
+}
+
+// Every cell of the grid that lies inside an image of the given size, row by row.
+export function computeGridCells(width: number, height: number, options: GridSliceOptions): Bounds[] {
+    const columns = layoutAxis(width, options.by, options.columns, options.cellWidth, options.margin, options.spacingX, options.offsetX);
+    const rows = layoutAxis(height, options.by, options.rows, options.cellHeight, options.margin, options.spacingY, options.offsetY);
+    if (columns.size < 1 || rows.size < 1) return [];
+    const cells: Bounds[] = [];
+    for (let r = 0; r < rows.count; r++) {
+        for (let c = 0; c < columns.count; c++) {
+            cells.push({ x: columns.start + c * (columns.size + options.spacingX), y: rows.start + r * (rows.size + options.spacingY), width: columns.size, height: rows.size });
+        }
+    }
+    return cells;
+}
+
+// Cells that contain at least one foreground pixel under the detection settings.
+export function filterEmptyCells(data: Uint8ClampedArray, width: number, cells: Bounds[], options: AutoDetectOptions): Bounds[] {
+    const isBackground = createBackgroundTest(data, options);
+    return cells.filter(cell => {
+        for (let y = cell.y; y < cell.y + cell.height; y++) {
+            for (let x = cell.x; x < cell.x + cell.width; x++) {
+                if (!isBackground((y * width + x) * 4)) return true;
+            }
+        }
+        return false;
+    });
+}
+
+// Runs of consecutive lines (columns or rows) that hold some foreground, as [start, end) pairs.
+function occupiedRuns(occupied: Uint8Array) {
+    const runs: [number, number][] = [];
+    let start = -1;
+    for (let i = 0; i <= occupied.length; i++) {
+        if (i < occupied.length && occupied[i]) {
+            if (start < 0) start = i;
+        } else if (start >= 0) {
+            runs.push([start, i]);
+            start = -1;
+        }
+    }
+    return runs;
+}
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+// Cell size, spacing and offset along one axis from the runs of occupied lines. When the runs are
+// evenly sized and spaced they are the cells themselves; otherwise the sprites are smaller than
+// their cells, so the cell size is the distance between sprites and the cells are centred on them.
+function guessAxis(runs: [number, number][]) {
+    if (runs.length < 2) return null;
+    const sizes = runs.map(([start, end]) => end - start);
+    const gaps = runs.slice(1).map(([start], i) => start - runs[i][1]);
+    if (Math.max(...sizes) - Math.min(...sizes) <= 1 && Math.max(...gaps) - Math.min(...gaps) <= 1) {
+        return { size: Math.max(...sizes), spacing: Math.min(...gaps), offset: runs[0][0] };
+    }
+    const pitch = median(runs.slice(1).map(([start], i) => start - runs[i][0]));
+    const offset = Math.max(0, Math.round(runs[0][0] - (pitch - sizes[0]) / 2));
+    return { size: pitch, spacing: 0, offset };
+}
+
+// Reverse-engineers the grid of an existing sprite sheet from the empty rows and columns between
+// its sprites. Returns null when no regular layout is found.
+export function guessGrid(data: Uint8ClampedArray, width: number, height: number, options: AutoDetectOptions): Partial<GridSliceOptions> | null {
+    const isBackground = createBackgroundTest(data, options);
+    const columns = new Uint8Array(width), rows = new Uint8Array(height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isBackground((y * width + x) * 4)) {
+                columns[x] = 1;
+                rows[y] = 1;
+            }
+        }
+    }
+    const colRuns = occupiedRuns(columns), rowRuns = occupiedRuns(rows);
+    const x = guessAxis(colRuns);
+    const y = guessAxis(rowRuns);
+    if (!x && !y) return null;
+    // A single row or column of sprites has no pitch along that axis; one cell spans the sprites.
+    const xAxis = x ?? { size: colRuns.length ? colRuns[0][1] - colRuns[0][0] : width, spacing: 0, offset: colRuns[0]?.[0] ?? 0 };
+    const yAxis = y ?? { size: rowRuns.length ? rowRuns[0][1] - rowRuns[0][0] : height, spacing: 0, offset: rowRuns[0]?.[0] ?? 0 };
+    return {
+        by: 'size',
+        cellWidth: xAxis.size,
+        cellHeight: yAxis.size,
+        margin: 0,
+        spacingX: xAxis.spacing,
+        spacingY: yAxis.spacing,
+        offsetX: xAxis.offset,
+        offsetY: yAxis.offset,
+    };
+}
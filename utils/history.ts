@@ -0,0 +1,69 @@
+// Undo/redo history. Each command records the state it replaced, so undoing restores it and keeps
+// the state it undid for redo.
+
+export interface HistoryEntry<T> {
+    // Shown in the history panel, e.g. "Delete crop".
+    label: string;
+    state: T;
+    // Consecutive commands with the same key (e.g. one drag of one crop) merge into a single entry.
+    mergeKey: string | null;
+    // When the entry was last recorded or merged into.
+    time: number;
+}
+
+export interface History<T> {
+    // Oldest first; the last entry is undone next.
+    past: HistoryEntry<T>[];
+    // Most recently undone last; the last entry is redone next.
+    future: HistoryEntry<T>[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+// Commands with the same merge key this close together count as one step.
+export const MERGE_WINDOW_MS = 1000;
+
+export const createHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+// Records a command that is about to replace `before`. Recording drops the redo stack.
+export function recordCommand<T>(history: History<T>, label: string, before: T, mergeKey: string | null = null, now = Date.now()): History<T> {
+    const last = history.past[history.past.length - 1];
+    if (mergeKey !== null && last?.mergeKey === mergeKey && now - last.time < MERGE_WINDOW_MS) {
+        // Only the merge window moves on, which nothing shows, so the history stays the same object
+        // and a drag doesn't produce a new one on every move.
+        last.time = now;
+        return history.future.length === 0 ? history : { past: history.past, future: [] };
+    }
+    const past = [...history.past, { label, state: before, mergeKey, time: now }];
+    return { past: past.slice(-HISTORY_LIMIT), future: [] };
+}
+
+// Undoes the last `steps` commands from `current`; null when there is nothing to undo.
+export function undo<T>(history: History<T>, current: T, steps = 1): { history: History<T>; state: T } | null {
+    if (history.past.length === 0 || steps < 1) return null;
+    const past = [...history.past], future = [...history.future];
+    let state = current;
+    for (let i = 0; i < steps && past.length > 0; i++) {
+        const entry = past.pop()!;
+        future.push({ ...entry, state, mergeKey: null });
+        state = entry.state;
+    }
+    return { history: { past, future }, state };
+}
+
+// Redoes the last `steps` undone commands from `current`; null when there is nothing to redo.
+export function redo<T>(history: History<T>, current: T, steps = 1): { history: History<T>; state: T } | null {
+    if (history.future.length === 0 || steps < 1) return null;
+    const past = [...history.past], future = [...history.future];
+    let state = current;
+    for (let i = 0; i < steps && future.length > 0; i++) {
+        const entry = future.pop()!;
+        past.push({ ...entry, state, mergeKey: null });
+        state = entry.state;
+    }
+    return { history: { past, future }, state };
+}
+
+// Every state the history holds on to, e.g. to keep the resources they reference alive.
+export const getHistoryStates = <T>(history: History<T>): T[] =>
+    [...history.past, ...history.future].map(entry => entry.state);
@@ -0,0 +1,56 @@
+export const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = url;
+});
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number) =>
+    new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export const getBaseName = (fileName: string) => {
+    const dot = fileName.lastIndexOf('.');
+    return dot > 0 ? fileName.substring(0, dot) : fileName;
+};
+
+// Returns `path`, or `path` with a numeric suffix before its extension if it is already in
+// `usedPaths`, and adds the result to `usedPaths`.
+export function claimUniquePath(path: string, usedPaths: Set<string>): string {
+    let unique = path;
+    if (usedPaths.has(path)) {
+        const dot = path.lastIndexOf('.');
+        const stem = dot > path.lastIndexOf('/') ? path.substring(0, dot) : path;
+        const ext = path.substring(stem.length);
+        let n = 2;
+        while (usedPaths.has(`${stem}-${n}${ext}`)) n++;
+        unique = `${stem}-${n}${ext}`;
+    }
+    usedPaths.add(unique);
+    return unique;
+}
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// DOM canvas on the main thread, OffscreenCanvas inside workers.
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+    if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+export const getContext2D = (canvas: AnyCanvas, settings?: CanvasRenderingContext2DSettings) =>
+    (canvas as HTMLCanvasElement).getContext('2d', settings) as AnyContext2D | null;
@@ -0,0 +1,38 @@
+import type { DespillSettings, ImageFile, ImageMask } from '../types';
+import { runInImagePool } from './workerPool';
+
+// Long side of the preview bitmaps; thumbnails are 160px, so this stays sharp on high-DPI screens.
+export const PREVIEW_SIZE = 320;
+
+// Wraps pixels in an ImageFile backed by object URLs. Only the preview is decoded here (in the
+// worker pool); the full-resolution image is decoded on demand by whatever draws it.
+export async function createImageFile(blob: Blob, fields: Pick<ImageFile, 'id' | 'name' | 'type'>): Promise<ImageFile> {
+    const url = URL.createObjectURL(blob);
+    try {
+        const { width, height, preview } = await runInImagePool({ type: 'preview', url, maxSize: PREVIEW_SIZE });
+        return { ...fields, url, blob, previewUrl: URL.createObjectURL(preview), mask: null, width, height };
+    } catch (error) {
+        URL.revokeObjectURL(url);
+        throw error;
+    }
+}
+
+export const loadImageFile = (file: File) =>
+    createImageFile(file, { id: `${file.name}-${Date.now()}`, name: file.name, type: file.type });
+
+export const createImageMask = (mask: Blob, preview: Blob, despill: DespillSettings | null, edited = false): ImageMask =>
+    ({ url: URL.createObjectURL(mask), blob: mask, previewUrl: URL.createObjectURL(preview), despill, edited });
+
+// Preview with the background removal applied, as shown in thumbnails.
+export const getPreviewUrl = (image: ImageFile) => image.mask?.previewUrl ?? image.previewUrl;
+
+const getObjectUrls = (image: ImageFile) =>
+    image.mask ? [image.url, image.previewUrl, image.mask.url, image.mask.previewUrl] : [image.url, image.previewUrl];
+
+// Revokes the object URLs of images (and masks) that are no longer referenced by `current`.
+export function releaseImages(previous: ImageFile[], current: ImageFile[]) {
+    const inUse = new Set(current.flatMap(getObjectUrls));
+    for (const url of previous.flatMap(getObjectUrls)) {
+        if (!inUse.has(url)) URL.revokeObjectURL(url);
+    }
+}
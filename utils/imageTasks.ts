@@ -0,0 +1,200 @@
+import type { AlignmentOptions, AutoDetectOptions, BackgroundEstimate, BackgroundKeyOptions, CropRect, DespillSettings, FrameOffset, GridSliceOptions, OutputFormat, OutputFormatOptions, OutputVariant, SpriteTrim } from '../types';
+import { createCanvas, getContext2D } from './image';
+import { findObjectBounds, type Bounds } from './detection';
+import { computeGridCells, filterEmptyCells, guessGrid } from './gridSlicing';
+import { computeBackgroundMask, getDespillSettings } from './backgroundRemoval';
+import { estimateBackground, resolveAutoDetectOptions } from './backgroundEstimation';
+import { createMaskCanvas, composeMasked } from './mask';
+import { drawCropVariant } from './render';
+import { alignFrame } from './alignment';
+import { trimCanvas, type TrimSettings } from './trim';
+import { encodeCanvas, DEFAULT_FORMAT_OPTIONS } from './formats';
+
+// Pixel work that runs in the image worker pool (or on the main thread where workers or
+// OffscreenCanvas are unavailable). Tasks only carry plain data so they can be posted to a worker.
+
+export interface RenderOutput {
+    rect: Pick<CropRect, 'x' | 'y' | 'width' | 'height'>;
+    variant: OutputVariant;
+    format: OutputFormat;
+}
+
+export type ImageTask =
+    | { type: 'preview'; url: string; maxSize: number }
+    | { type: 'detect'; url: string; maskUrl?: string; options: AutoDetectOptions }
+    | { type: 'sliceGrid'; url: string; maskUrl?: string; grid: GridSliceOptions; options: AutoDetectOptions }
+    | { type: 'guessGrid'; url: string; maskUrl?: string; options: AutoDetectOptions }
+    | { type: 'estimateBackground'; url: string }
+    | { type: 'encodeMask'; url: string; coverage: Uint8ClampedArray; despill: DespillSettings | null; previewSize: number }
+    | { type: 'removeBackground'; url: string; options: BackgroundKeyOptions; previewSize: number }
+    | { type: 'render'; url: string; maskUrl?: string; despill?: DespillSettings | null; outputs: RenderOutput[]; formatOptions: OutputFormatOptions; trim?: TrimSettings | null }
+    | { type: 'renderFrame'; url: string; maskUrl?: string; despill?: DespillSettings | null; rect: RenderOutput['rect']; variant: OutputVariant; size: { width: number; height: number } | null }
+    | { type: 'align'; url: string; referenceUrl: string; options: Pick<AlignmentOptions, 'method' | 'maxShift'> };
+
+export interface ImageTaskResults {
+    // Full-size dimensions plus a PNG no larger than `maxSize` on its long side.
+    preview: { width: number; height: number; preview: Blob };
+    detect: Bounds[];
+    // Grid cells that aren't empty under the detection options.
+    sliceGrid: Bounds[];
+    // Grid layout found on the image; null when it has none.
+    guessGrid: Partial<GridSliceOptions> | null;
+    estimateBackground: BackgroundEstimate;
+    // Mask PNG plus a preview of the original with the mask (and despill) applied, and the key colors
+    // that were used; null when there was no usable key color.
+    removeBackground: { mask: Blob; preview: Blob; colors: string[] } | null;
+    // Like removeBackground, for a coverage mask edited on the main thread.
+    encodeMask: { mask: Blob; preview: Blob };
+    // One encoded file per requested output, in order, with where it sat before trimming when it was trimmed.
+    render: { blob: Blob | null; trim: SpriteTrim | null }[];
+    // The crop drawn with its variant, stretched to `size` if given, for compositing on the main thread.
+    renderFrame: ImageBitmap;
+    // Translation of the image's content relative to the reference image.
+    align: FrameOffset;
+}
+
+export type ImageTaskResult<T extends ImageTask> = ImageTaskResults[T['type']];
+
+const fetchBitmap = async (url: string) => createImageBitmap(await (await fetch(url)).blob());
+
+// Decodes the image with its background-removal mask, if it has one, already applied.
+const decodeImage = async (url: string, maskUrl?: string, despill?: DespillSettings | null) => {
+    const bitmap = await fetchBitmap(url);
+    if (!maskUrl) return bitmap;
+    const mask = await fetchBitmap(maskUrl);
+    try {
+        return await createImageBitmap(composeMasked(bitmap, mask, bitmap.width, bitmap.height, despill));
+    } finally {
+        bitmap.close();
+        mask.close();
+    }
+};
+
+const encodePreview = async (source: CanvasImageSource, width: number, height: number, maxSize: number) => {
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    const canvas = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    const ctx = getContext2D(canvas);
+    if (!ctx) throw new Error("Could not create a preview canvas.");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    const preview = await encodeCanvas(canvas, 'png', DEFAULT_FORMAT_OPTIONS);
+    if (!preview) throw new Error("Could not encode the preview.");
+    return preview;
+};
+
+// Encodes a coverage mask as PNG, plus a preview of the image with it applied.
+const encodeMask = async (bitmap: ImageBitmap, coverage: Uint8ClampedArray, despill: DespillSettings | null, previewSize: number) => {
+    const maskCanvas = createMaskCanvas(coverage, bitmap.width, bitmap.height);
+    const mask = await encodeCanvas(maskCanvas, 'png', DEFAULT_FORMAT_OPTIONS);
+    if (!mask) throw new Error("Could not encode the mask.");
+    const preview = await encodePreview(composeMasked(bitmap, maskCanvas, bitmap.width, bitmap.height, despill), bitmap.width, bitmap.height, previewSize);
+    return { mask, preview };
+};
+
+const readPixels = (bitmap: ImageBitmap) => {
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not read image pixels.");
+    ctx.drawImage(bitmap, 0, 0);
+    return { imageData: ctx.getImageData(0, 0, bitmap.width, bitmap.height) };
+};
+
+// Detection options with the 'auto' mode resolved from the image's own border.
+const resolveDetectOptions = (options: AutoDetectOptions, imageData: ImageData) => options.mode === 'auto'
+    ? resolveAutoDetectOptions(options, estimateBackground(imageData.data, imageData.width, imageData.height))
+    : options;
+
+export async function runImageTask<T extends ImageTask>(task: T, onProgress: (fraction: number) => void = () => {}): Promise<ImageTaskResult<T>> {
+    const bitmap = await decodeImage(task.url, 'maskUrl' in task ? task.maskUrl : undefined, 'despill' in task ? task.despill : undefined);
+    try {
+        switch (task.type) {
+            case 'preview': {
+                const preview = await encodePreview(bitmap, bitmap.width, bitmap.height, task.maxSize);
+                onProgress(1);
+                return { width: bitmap.width, height: bitmap.height, preview } as ImageTaskResult<T>;
+            }
+            case 'detect': {
+                const { imageData } = readPixels(bitmap);
+                const options = resolveDetectOptions(task.options, imageData);
+                return findObjectBounds(imageData.data, bitmap.width, bitmap.height, options, onProgress) as ImageTaskResult<T>;
+            }
+            case 'sliceGrid': {
+                const { imageData } = readPixels(bitmap);
+                const cells = computeGridCells(bitmap.width, bitmap.height, task.grid);
+                const filled = filterEmptyCells(imageData.data, bitmap.width, cells, resolveDetectOptions(task.options, imageData));
+                onProgress(1);
+                return filled as ImageTaskResult<T>;
+            }
+            case 'guessGrid': {
+                const { imageData } = readPixels(bitmap);
+                const grid = guessGrid(imageData.data, bitmap.width, bitmap.height, resolveDetectOptions(task.options, imageData));
+                onProgress(1);
+                return grid as ImageTaskResult<T>;
+            }
+            case 'estimateBackground': {
+                const { imageData } = readPixels(bitmap);
+                const estimate = estimateBackground(imageData.data, bitmap.width, bitmap.height);
+                onProgress(1);
+                return estimate as ImageTaskResult<T>;
+            }
+            case 'removeBackground': {
+                const { imageData } = readPixels(bitmap);
+                const options = task.options.autoColors
+                    ? { ...task.options, colors: estimateBackground(imageData.data, bitmap.width, bitmap.height).colors.map(c => c.color) }
+                    : task.options;
+                const coverage = computeBackgroundMask(imageData.data, bitmap.width, bitmap.height, options, onProgress);
+                if (!coverage) return null as ImageTaskResult<T>;
+                const { mask, preview } = await encodeMask(bitmap, coverage, getDespillSettings(options), task.previewSize);
+                return { mask, preview, colors: options.colors } as ImageTaskResult<T>;
+            }
+            case 'encodeMask': {
+                if (task.coverage.length !== bitmap.width * bitmap.height) throw new Error("The mask does not match the image size.");
+                const result = await encodeMask(bitmap, task.coverage, task.despill, task.previewSize);
+                onProgress(1);
+                return result as ImageTaskResult<T>;
+            }
+            case 'render': {
+                const canvas = createCanvas(1, 1);
+                const trim = task.trim && (task.trim.background.mode === 'auto'
+                    ? { ...task.trim, background: resolveDetectOptions(task.trim.background, readPixels(bitmap).imageData) }
+                    : task.trim);
+                const rendered: ImageTaskResults['render'] = [];
+                for (const output of task.outputs) {
+                    drawCropVariant(canvas, bitmap, output.rect, output.variant);
+                    const placement = trim ? trimCanvas(canvas, trim) : null;
+                    rendered.push({ blob: await encodeCanvas(canvas, output.format, task.formatOptions), trim: placement });
+                    onProgress(rendered.length / task.outputs.length);
+                }
+                return rendered as ImageTaskResult<T>;
+            }
+            case 'renderFrame': {
+                let canvas = createCanvas(1, 1);
+                drawCropVariant(canvas, bitmap, task.rect, task.variant);
+                if (task.size && (canvas.width !== task.size.width || canvas.height !== task.size.height)) {
+                    const resized = createCanvas(task.size.width, task.size.height);
+                    const ctx = getContext2D(resized);
+                    if (!ctx) throw new Error("Could not create a frame canvas.");
+                    ctx.imageSmoothingEnabled = task.variant.sampling === 'smooth';
+                    ctx.drawImage(canvas, 0, 0, resized.width, resized.height);
+                    canvas = resized;
+                }
+                const frame = await createImageBitmap(canvas);
+                onProgress(1);
+                return frame as ImageTaskResult<T>;
+            }
+            case 'align': {
+                const reference = await fetchBitmap(task.referenceUrl);
+                try {
+                    const offset = alignFrame(reference, bitmap, reference.width, reference.height, task.options);
+                    onProgress(1);
+                    return offset as ImageTaskResult<T>;
+                } finally {
+                    reference.close();
+                }
+            }
+        }
+    } finally {
+        bitmap.close();
+    }
+    throw new Error(`Unknown image task: ${(task as ImageTask).type}`);
+}
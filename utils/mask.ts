@@ -0,0 +1,60 @@
+import type { DespillSettings, ImageFile } from '../types';
+import { createCanvas, getContext2D, loadImage, type AnyCanvas } from './image';
+import { despillEdges } from './backgroundRemoval';
+
+// Masks are stored as PNGs whose alpha channel is the coverage; the color channels are unused.
+export function createMaskCanvas(mask: Uint8ClampedArray, width: number, height: number): AnyCanvas {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas);
+    if (!ctx) throw new Error("Could not create a mask canvas.");
+    const imageData = ctx.createImageData(width, height);
+    for (let i = 0; i < mask.length; i++) imageData.data[i * 4 + 3] = mask[i];
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+}
+
+// Draws `source` with `mask` applied into a new canvas of the given size; both are stretched to fit.
+// With `despill`, the key color's cast is also removed from the edges that remain.
+export function composeMasked(source: CanvasImageSource, mask: CanvasImageSource, width: number, height: number, despill?: DespillSettings | null): AnyCanvas {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas, despill ? { willReadFrequently: true } : undefined);
+    if (!ctx) throw new Error("Could not create a canvas.");
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask, 0, 0, width, height);
+    if (despill) {
+        const imageData = ctx.getImageData(0, 0, width, height);
+        despillEdges(imageData.data, width, height, despill);
+        ctx.putImageData(imageData, 0, 0);
+    }
+    return canvas;
+}
+
+// Main-thread image as it should be previewed or exported: the original with its mask, if any, applied.
+export async function loadMaskedImage(image: ImageFile): Promise<CanvasImageSource> {
+    const img = await loadImage(image.url);
+    if (!image.mask) return img;
+    const mask = await loadImage(image.mask.url);
+    return composeMasked(img, mask, image.width, image.height, image.mask.despill);
+}
+
+const readPixels = (source: CanvasImageSource, width: number, height: number) => {
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not read image pixels.");
+    ctx.drawImage(source, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Original pixels and full-size mask coverage of an image, for editing on the main thread. Images
+// without a mask start out fully kept.
+export async function readMaskForEditing(image: ImageFile) {
+    const source = await loadImage(image.url);
+    const pixels = readPixels(source, image.width, image.height);
+    const coverage = new Uint8ClampedArray(image.width * image.height).fill(255);
+    if (image.mask) {
+        const mask = readPixels(await loadImage(image.mask.url), image.width, image.height);
+        for (let i = 0; i < coverage.length; i++) coverage[i] = mask[i * 4 + 3];
+    }
+    return { source, pixels, coverage };
+}
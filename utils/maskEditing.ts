@@ -0,0 +1,80 @@
+import type { MaskBrushSettings } from '../types';
+import { computeBackgroundMask, DEFAULT_BG_KEY_OPTIONS } from './backgroundRemoval';
+import { rgbToHex } from './color';
+
+export const DEFAULT_MASK_BRUSH: MaskBrushSettings = { tool: 'erase', size: 24, hardness: 0.6, tolerance: 30 };
+
+export interface DirtyRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Stamps one brush dab into a coverage mask in place and returns the area it touched, or null when
+// it missed the image. 'keep' raises coverage towards opaque, 'erase' lowers it towards transparent.
+export function paintDab(mask: Uint8ClampedArray, width: number, height: number, cx: number, cy: number, brush: MaskBrushSettings): DirtyRect | null {
+    const radius = Math.max(0.5, brush.size / 2);
+    const solid = radius * Math.min(1, Math.max(0, brush.hardness));
+    const x0 = Math.max(0, Math.floor(cx - radius)), x1 = Math.min(width - 1, Math.ceil(cx + radius));
+    const y0 = Math.max(0, Math.floor(cy - radius)), y1 = Math.min(height - 1, Math.ceil(cy + radius));
+    if (x0 > x1 || y0 > y1) return null;
+
+    for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+            const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+            if (distance > radius) continue;
+            const strength = distance <= solid ? 1 : (radius - distance) / (radius - solid);
+            const i = y * width + x;
+            if (brush.tool === 'keep') mask[i] = Math.max(mask[i], 255 * strength);
+            else mask[i] = Math.min(mask[i], 255 * (1 - strength));
+        }
+    }
+    return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+}
+
+// Paints dabs along the segment between two pointer positions, close enough together that fast
+// strokes stay continuous.
+export function paintSegment(mask: Uint8ClampedArray, width: number, height: number, from: { x: number; y: number }, to: { x: number; y: number }, brush: MaskBrushSettings): DirtyRect | null {
+    const spacing = Math.max(1, brush.size / 4);
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+    let dirty: DirtyRect | null = null;
+    for (let s = 1; s <= steps; s++) {
+        const t = s / steps;
+        const rect = paintDab(mask, width, height, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brush);
+        if (rect) dirty = dirty ? unionRect(dirty, rect) : rect;
+    }
+    return dirty;
+}
+
+export const unionRect = (a: DirtyRect, b: DirtyRect): DirtyRect => {
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+// Magic wand: selects the region of similar color connected to the clicked pixel, with the same flood
+// fill as background removal, and adds it to ('wandAdd') or subtracts it from the kept area. Returns
+// whether anything changed.
+export function applyMagicWand(mask: Uint8ClampedArray, pixels: Uint8ClampedArray, width: number, height: number, x: number, y: number, brush: MaskBrushSettings): boolean {
+    if (x < 0 || y < 0 || x >= width || y >= height) return false;
+    const p = (y * width + x) * 4;
+    const region = computeBackgroundMask(pixels, width, height, {
+        ...DEFAULT_BG_KEY_OPTIONS,
+        colors: [rgbToHex(pixels[p], pixels[p + 1], pixels[p + 2])],
+        // The clicked pixel itself is always inside the tolerance.
+        tolerance: Math.max(1, brush.tolerance),
+        feather: 0,
+        mode: 'seeds',
+        seeds: [{ x, y }],
+    });
+    if (!region) return false;
+    const value = brush.tool === 'wandAdd' ? 255 : 0;
+    let changed = false;
+    for (let i = 0; i < region.length; i++) {
+        if (region[i] === 0 && mask[i] !== value) {
+            mask[i] = value;
+            changed = true;
+        }
+    }
+    return changed;
+}
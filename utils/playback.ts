@@ -0,0 +1,45 @@
+import type { ImageFile, PlaybackSettings } from '../types';
+
+export interface TimelineFrame {
+    // Index into the image list.
+    index: number;
+    // Display time in milliseconds.
+    duration: number;
+}
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = {
+    fps: 10,
+    loopMode: 'loop',
+    isReversed: false,
+    startFrame: 0,
+    endFrame: null,
+    frameHolds: {},
+};
+
+export const getFrameRange = (frameCount: number, settings: PlaybackSettings) => {
+    const last = Math.max(0, frameCount - 1);
+    const start = Math.min(Math.max(0, settings.startFrame), last);
+    const end = Math.min(Math.max(start, settings.endFrame ?? last), last);
+    return { start, end };
+};
+
+// Expands the playback settings into the ordered list of frames to show and how long to show each one.
+// Both the preview and the animated exports play this timeline, so they always agree on timing.
+export function buildTimeline(images: ImageFile[], settings: PlaybackSettings): TimelineFrame[] {
+    if (images.length === 0) return [];
+    const { start, end } = getFrameRange(images.length, settings);
+    const tick = 1000 / Math.max(0.1, settings.fps);
+
+    let order: number[] = [];
+    for (let i = start; i <= end; i++) order.push(i);
+    if (settings.isReversed) order.reverse();
+    if (settings.loopMode === 'pingpong' && order.length > 2) {
+        // Bounce without showing the end frames twice in a row: 0 1 2 3 2 1 | 0 1 ...
+        order = [...order, ...order.slice(1, -1).reverse()];
+    }
+
+    return order.map(index => ({
+        index,
+        duration: tick * Math.max(1, settings.frameHolds[images[index].id] ?? 1),
+    }));
+}
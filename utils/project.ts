@@ -0,0 +1,143 @@
+import type { CropRect, ImageFile, ProjectFile, ProjectSettings, SavedCrop } from '../types';
+import { getCropName } from './exportPlan';
+import { clampCropToImage } from './crops';
+import { OUTPUT_FORMATS } from './formats';
+import { ANIMATION_FILE_TYPES } from './animationExport';
+import { KEY_TOLERANCE_RANGES } from './backgroundRemoval';
+
+export const PROJECT_FORMAT = 'bulk-image-cropper-project';
+export const PROJECT_VERSION = 1;
+
+type Size = { width: number; height: number };
+
+export const toSavedCrops = (crops: CropRect[]): SavedCrop[] => crops.map((crop, i) => {
+    const { id, ...saved } = crop;
+    return { ...saved, name: getCropName(crop, i) };
+});
+
+// Turns saved crops back into crops for an image of size `to`, scaling them from the `from` size
+// they were laid out on.
+export function restoreSavedCrops(saved: SavedCrop[], from: Size, to: Size): CropRect[] {
+    const sx = to.width / from.width, sy = to.height / from.height;
+    return saved.map((crop, i) => clampCropToImage({
+        ...crop,
+        id: `crop-${Date.now()}-${i}`,
+        x: Math.round(crop.x * sx),
+        y: Math.round(crop.y * sy),
+        width: Math.round(crop.width * sx),
+        height: Math.round(crop.height * sy),
+    }, to));
+}
+
+export function createProjectFile(crops: CropRect[], imageSize: Size, settings: ProjectSettings, images?: ImageFile[]): ProjectFile {
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        imageSize: { width: imageSize.width, height: imageSize.height },
+        crops: toSavedCrops(crops),
+        settings,
+        ...(images && { images: images.map(({ name, width, height }) => ({ name, width, height })) }),
+    };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isSize = (value: unknown): value is Size => isObject(value) && isNumber(value.width) && isNumber(value.height) && value.width > 0 && value.height > 0;
+
+// Checks saved crops well enough that the editor can't be handed garbage.
+export function validateSavedCrops(crops: unknown): SavedCrop[] {
+    if (!Array.isArray(crops)) throw new Error("The crop list is missing.");
+    return crops.map((crop, i) => {
+        if (!isObject(crop) || ![crop.x, crop.y, crop.width, crop.height].every(isNumber)) {
+            throw new Error(`Crop ${i + 1} has no valid position and size.`);
+        }
+        return { ...crop, name: typeof crop.name === 'string' ? crop.name : `crop-${i + 1}` } as unknown as SavedCrop;
+    });
+}
+
+type FieldCheck = (value: unknown) => boolean;
+
+const oneOf = (...options: unknown[]): FieldCheck => value => options.includes(value);
+
+// Fields whose valid values can't be told from the kind of their current value.
+const SETTINGS_CHECKS: { [K in keyof ProjectSettings]?: Partial<Record<keyof ProjectSettings[K], FieldCheck>> } = {
+    autoDetect: {
+        mode: oneOf('transparent', 'color', 'auto'),
+        connectivity: oneOf(4, 8),
+        frames: oneOf('current', 'union', 'intersection', 'track'),
+    },
+    backgroundKey: {
+        colors: value => Array.isArray(value) && value.every(color => typeof color === 'string'),
+        colorSpace: oneOf(...Object.keys(KEY_TOLERANCE_RANGES)),
+        mode: oneOf('contiguous', 'global', 'seeds'),
+        seeds: value => Array.isArray(value) && value.every(seed => isObject(seed) && isNumber(seed.x) && isNumber(seed.y)),
+    },
+    grid: { by: oneOf('count', 'size') },
+    outputFormat: {
+        format: oneOf('source', ...Object.keys(OUTPUT_FORMATS)),
+        jpegBackground: value => value === null || typeof value === 'string',
+    },
+    spriteSheet: { layout: oneOf('grid', 'strip', 'packed'), atlasFormat: oneOf('hash', 'array') },
+    animationExport: { format: oneOf(...Object.keys(ANIMATION_FILE_TYPES)) },
+};
+
+// The fields of `value` that fit `reference`: same kind of value (finite for numbers), or passing
+// `checks` where given. Nested objects are checked the same way and completed from `reference`.
+function pickValidFields<T extends object>(value: unknown, reference: T, checks: Partial<Record<keyof T, FieldCheck>> = {}): Partial<T> {
+    if (!isObject(value)) return {};
+    const valid: Partial<T> = {};
+    for (const key of Object.keys(reference) as (keyof T & string)[]) {
+        const field = value[key];
+        const current = reference[key];
+        const check = checks[key];
+        if (check) {
+            if (check(field)) valid[key] = field as T[typeof key];
+        } else if (isObject(current)) {
+            if (isObject(field)) valid[key] = { ...current, ...pickValidFields(field, current) };
+        } else if (typeof field === typeof current && (!isNumber(current) || isNumber(field))) {
+            valid[key] = field as T[typeof key];
+        }
+    }
+    return valid;
+}
+
+// Keeps the settings of a project that fit the app's own, so a hand-edited or damaged file can't put
+// the editor in a state it can't handle; whatever doesn't fit is left as it is now.
+function validateSettings(settings: unknown, current: ProjectSettings): Partial<ProjectSettings> {
+    if (!isObject(settings)) return {};
+    const valid: Partial<ProjectSettings> = {};
+    for (const key of Object.keys(current) as (keyof ProjectSettings)[]) {
+        if (!(key in settings)) continue;
+        if (key === 'filenameTemplate') {
+            if (typeof settings[key] === 'string') valid[key] = settings[key];
+            continue;
+        }
+        const fields = pickValidFields(settings[key], current[key], SETTINGS_CHECKS[key]);
+        if (Object.keys(fields).length > 0) (valid as Record<string, unknown>)[key] = fields;
+    }
+    return valid;
+}
+
+// Reads a project file, upgrading older versions. Throws with a readable message when the file isn't a
+// project or comes from a newer version of the app. Settings are checked against `currentSettings`.
+export function parseProjectFile(text: string, currentSettings: ProjectSettings): ProjectFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (!isObject(data) || data.format !== PROJECT_FORMAT) throw new Error("The file is not a crop project.");
+    if (!isNumber(data.version) || data.version > PROJECT_VERSION) {
+        throw new Error(`The project was saved by a newer version of the app (format ${data.version}).`);
+    }
+    if (!isSize(data.imageSize)) throw new Error("The project has no valid image size.");
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        imageSize: data.imageSize,
+        crops: validateSavedCrops(data.crops),
+        settings: validateSettings(data.settings, currentSettings),
+        ...(Array.isArray(data.images) && { images: data.images.filter(image => isObject(image) && typeof image.name === 'string') }),
+    } as ProjectFile;
+}
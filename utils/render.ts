@@ -0,0 +1,93 @@
+import type { CropRect, OutputVariant } from '../types';
+import { getContext2D, type AnyCanvas } from './image';
+
+export const DEFAULT_OUTPUT: OutputVariant = {
+    id: 'default',
+    suffix: '',
+    scale: 1,
+    width: null,
+    height: null,
+    fit: 'contain',
+    background: null,
+    sampling: 'smooth',
+};
+
+export const getCropOutputs = (crop: CropRect): OutputVariant[] =>
+    crop.outputs && crop.outputs.length > 0 ? crop.outputs : [DEFAULT_OUTPUT];
+
+export interface OutputGeometry {
+    canvasWidth: number;
+    canvasHeight: number;
+    // Part of the source rect that is drawn, relative to the rect's top-left corner.
+    sx: number;
+    sy: number;
+    sw: number;
+    sh: number;
+    // Where it lands on the output canvas.
+    dx: number;
+    dy: number;
+    dw: number;
+    dh: number;
+}
+
+// Works out the output canvas size and the source/destination rects for one variant of a
+// `sourceWidth × sourceHeight` crop.
+export function computeOutputGeometry(sourceWidth: number, sourceHeight: number, variant: OutputVariant): OutputGeometry {
+    const scale = variant.scale > 0 ? variant.scale : 1;
+    const aspect = sourceWidth / sourceHeight;
+    const full = { sx: 0, sy: 0, sw: sourceWidth, sh: sourceHeight };
+    const round = (v: number) => Math.max(1, Math.round(v));
+
+    if (!variant.width && !variant.height) {
+        const w = round(sourceWidth * scale), h = round(sourceHeight * scale);
+        return { canvasWidth: w, canvasHeight: h, ...full, dx: 0, dy: 0, dw: w, dh: h };
+    }
+    if (!variant.width || !variant.height) {
+        const w = round(variant.width ? variant.width * scale : variant.height! * scale * aspect);
+        const h = round(variant.height ? variant.height * scale : variant.width! * scale / aspect);
+        return { canvasWidth: w, canvasHeight: h, ...full, dx: 0, dy: 0, dw: w, dh: h };
+    }
+
+    const boxWidth = round(variant.width * scale);
+    const boxHeight = round(variant.height * scale);
+    switch (variant.fit) {
+        case 'stretch':
+            return { canvasWidth: boxWidth, canvasHeight: boxHeight, ...full, dx: 0, dy: 0, dw: boxWidth, dh: boxHeight };
+        case 'cover': {
+            // Fill the box and trim the overflowing source evenly on both sides.
+            const factor = Math.max(boxWidth / sourceWidth, boxHeight / sourceHeight);
+            const sw = boxWidth / factor, sh = boxHeight / factor;
+            return { canvasWidth: boxWidth, canvasHeight: boxHeight, sx: (sourceWidth - sw) / 2, sy: (sourceHeight - sh) / 2, sw, sh, dx: 0, dy: 0, dw: boxWidth, dh: boxHeight };
+        }
+        case 'contain':
+        case 'pad': {
+            const factor = Math.min(boxWidth / sourceWidth, boxHeight / sourceHeight);
+            const dw = round(sourceWidth * factor), dh = round(sourceHeight * factor);
+            if (variant.fit === 'contain') {
+                return { canvasWidth: dw, canvasHeight: dh, ...full, dx: 0, dy: 0, dw, dh };
+            }
+            return { canvasWidth: boxWidth, canvasHeight: boxHeight, ...full, dx: Math.floor((boxWidth - dw) / 2), dy: Math.floor((boxHeight - dh) / 2), dw, dh };
+        }
+    }
+}
+
+// Resizes `canvas` to the variant's output and draws `rect` of the source image into it.
+export function drawCropVariant(canvas: AnyCanvas, source: CanvasImageSource, rect: Pick<CropRect, 'x' | 'y' | 'width' | 'height'>, variant: OutputVariant = DEFAULT_OUTPUT) {
+    const geometry = computeOutputGeometry(rect.width, rect.height, variant);
+    canvas.width = geometry.canvasWidth;
+    canvas.height = geometry.canvasHeight;
+    const ctx = getContext2D(canvas);
+    if (!ctx) return;
+
+    if (variant.fit === 'pad' && variant.background) {
+        ctx.fillStyle = variant.background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingEnabled = variant.sampling === 'smooth';
+    if (variant.sampling === 'smooth') ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(
+        source,
+        rect.x + geometry.sx, rect.y + geometry.sy, geometry.sw, geometry.sh,
+        geometry.dx, geometry.dy, geometry.dw, geometry.dh
+    );
+}
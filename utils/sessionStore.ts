@@ -0,0 +1,161 @@
+import type { AlignmentOffsets, CropOverrides, CropRect, DespillSettings, ImageFile } from '../types';
+import { createImageFile, createImageMask } from './imageStore';
+
+// Autosave of the working session in IndexedDB, so a closed tab or a crash doesn't lose the uploads,
+// their masks and the crops. Image blobs are written once per change of an image; the rest of the
+// state is small and rewritten on every save.
+
+const DB_NAME = 'bulk-image-cropper';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+const STATE_STORE = 'state';
+const STATE_KEY = 'current';
+
+export interface SessionState {
+    savedAt: number;
+    // Image ids in display order.
+    imageIds: string[];
+    crops: CropRect[];
+    cropOverrides: CropOverrides;
+    alignmentOffsets: AlignmentOffsets;
+    selectedImageId: string | null;
+    selectedCropId: string | null;
+}
+
+interface StoredImage {
+    id: string;
+    name: string;
+    type: string;
+    blob: Blob;
+    mask: { blob: Blob; preview: Blob; despill: DespillSettings | null; edited: boolean } | null;
+}
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+    databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+            request.result.createObjectStore(STATE_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            databasePromise = null;
+            reject(request.error);
+        };
+    });
+    return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("The session save was aborted."));
+});
+
+// Image objects whose current blobs and mask are already in the database. Images are replaced, not
+// mutated, when their mask changes, so object identity tells what needs writing.
+let savedImages = new WeakSet<ImageFile>();
+
+const toStoredImage = async (image: ImageFile): Promise<StoredImage> => ({
+    id: image.id,
+    name: image.name,
+    type: image.type,
+    blob: image.blob,
+    // The masked preview only exists as an object URL; reading it back is cheaper than recomposing it.
+    mask: image.mask && {
+        blob: image.mask.blob,
+        preview: await (await fetch(image.mask.previewUrl)).blob(),
+        despill: image.mask.despill,
+        edited: image.mask.edited,
+    },
+});
+
+export async function saveSession(images: ImageFile[], state: Omit<SessionState, 'savedAt' | 'imageIds'>) {
+    const changed = images.filter(image => !savedImages.has(image));
+    // Everything async that isn't IndexedDB has to happen first: a transaction closes once it's left idle.
+    const records = await Promise.all(changed.map(toStoredImage));
+    const db = await openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, STATE_STORE], 'readwrite');
+    const imageStore = transaction.objectStore(IMAGES_STORE);
+    const ids = new Set(images.map(image => image.id));
+    imageStore.getAllKeys().onsuccess = event => {
+        for (const key of (event.target as IDBRequest<IDBValidKey[]>).result) {
+            if (!ids.has(key as string)) imageStore.delete(key);
+        }
+    };
+    records.forEach(record => imageStore.put(record));
+    const session: SessionState = { ...state, savedAt: Date.now(), imageIds: images.map(image => image.id) };
+    transaction.objectStore(STATE_STORE).put(session, STATE_KEY);
+    await transactionDone(transaction);
+    changed.forEach(image => savedImages.add(image));
+}
+
+// The saved session without its image data, e.g. to offer restoring it; null when there is none.
+export async function getSavedSession(): Promise<SessionState | null> {
+    const db = await openDatabase();
+    const state = await requestResult(db.transaction(STATE_STORE).objectStore(STATE_STORE).get(STATE_KEY));
+    return state && state.imageIds.length > 0 ? state as SessionState : null;
+}
+
+// Loads the saved session back into images; images whose data is missing are left out.
+export async function restoreSession(): Promise<{ state: SessionState; images: ImageFile[] } | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, STATE_STORE]);
+    const [state, stored] = await Promise.all([
+        requestResult(transaction.objectStore(STATE_STORE).get(STATE_KEY)) as Promise<SessionState | undefined>,
+        requestResult(transaction.objectStore(IMAGES_STORE).getAll()) as Promise<StoredImage[]>,
+    ]);
+    if (!state) return null;
+    const byId = new Map(stored.map(record => [record.id, record]));
+    const images = await Promise.all(state.imageIds.flatMap(id => {
+        const record = byId.get(id);
+        return record ? [restoreImage(record)] : [];
+    }));
+    images.forEach(image => savedImages.add(image));
+    return { state, images };
+}
+
+const restoreImage = async (record: StoredImage): Promise<ImageFile> => {
+    const image = await createImageFile(record.blob, { id: record.id, name: record.name, type: record.type });
+    if (!record.mask) return image;
+    return { ...image, mask: createImageMask(record.mask.blob, record.mask.preview, record.mask.despill, record.mask.edited) };
+};
+
+export async function clearSession() {
+    const db = await openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, STATE_STORE], 'readwrite');
+    transaction.objectStore(IMAGES_STORE).clear();
+    transaction.objectStore(STATE_STORE).clear();
+    await transactionDone(transaction);
+    savedImages = new WeakSet();
+}
+
+// How much this site stores in the browser and may store, where the browser reports it.
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024, unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
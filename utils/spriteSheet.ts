@@ -0,0 +1,185 @@
+import type { SpriteSheetOptions } from '../types';
+
+export interface SpriteSheetFrame {
+    name: string;
+    width: number;
+    height: number;
+}
+
+export interface PlacedFrame extends SpriteSheetFrame {
+    // Position of the frame's pixels on the sheet, excluding any extruded border.
+    x: number;
+    y: number;
+}
+
+export interface SpriteSheetLayoutResult {
+    width: number;
+    height: number;
+    frames: PlacedFrame[];
+}
+
+interface Rect { x: number; y: number; width: number; height: number; }
+
+// Free-rectangle bin packer (MaxRects, best short side fit). The bin height is left
+// unbounded so every slot fits; the caller measures the used area afterwards.
+const packMaxRects = (slots: { width: number; height: number }[], binWidth: number): { x: number; y: number }[] | null => {
+    const binHeight = slots.reduce((sum, s) => sum + s.height, 0);
+    let freeRects: Rect[] = [{ x: 0, y: 0, width: binWidth, height: binHeight }];
+    const positions: { x: number; y: number }[] = new Array(slots.length);
+
+    const order = slots.map((_, i) => i).sort((a, b) =>
+        Math.max(slots[b].width, slots[b].height) - Math.max(slots[a].width, slots[a].height) ||
+        slots[b].width * slots[b].height - slots[a].width * slots[a].height
+    );
+
+    for (const index of order) {
+        const { width, height } = slots[index];
+        let best: Rect | null = null;
+        let bestShort = Infinity;
+        let bestLong = Infinity;
+        for (const free of freeRects) {
+            if (width > free.width || height > free.height) continue;
+            const leftoverW = free.width - width;
+            const leftoverH = free.height - height;
+            const short = Math.min(leftoverW, leftoverH);
+            const long = Math.max(leftoverW, leftoverH);
+            if (short < bestShort || (short === bestShort && long < bestLong)) {
+                best = { x: free.x, y: free.y, width, height };
+                bestShort = short;
+                bestLong = long;
+            }
+        }
+        if (!best) return null;
+        positions[index] = { x: best.x, y: best.y };
+
+        const placed = best;
+        const nextFree: Rect[] = [];
+        for (const free of freeRects) {
+            const intersects = placed.x < free.x + free.width && placed.x + placed.width > free.x &&
+                placed.y < free.y + free.height && placed.y + placed.height > free.y;
+            if (!intersects) {
+                nextFree.push(free);
+                continue;
+            }
+            if (placed.x > free.x) nextFree.push({ ...free, width: placed.x - free.x });
+            if (placed.x + placed.width < free.x + free.width) nextFree.push({ ...free, x: placed.x + placed.width, width: free.x + free.width - placed.x - placed.width });
+            if (placed.y > free.y) nextFree.push({ ...free, height: placed.y - free.y });
+            if (placed.y + placed.height < free.y + free.height) nextFree.push({ ...free, y: placed.y + placed.height, height: free.y + free.height - placed.y - placed.height });
+        }
+        // Drop free rectangles fully contained in another one.
+        freeRects = nextFree.filter((a, i) => !nextFree.some((b, j) => i !== j &&
+            a.x >= b.x && a.y >= b.y && a.x + a.width <= b.x + b.width && a.y + a.height <= b.y + b.height &&
+            (j < i || a.x !== b.x || a.y !== b.y || a.width !== b.width || a.height !== b.height)
+        ));
+    }
+    return positions;
+};
+
+export function layoutSpriteSheet(frames: SpriteSheetFrame[], options: SpriteSheetOptions): SpriteSheetLayoutResult {
+    const { padding, extrude } = options;
+    if (frames.length === 0) return { width: 0, height: 0, frames: [] };
+
+    // Every slot carries its extruded border plus the trailing padding; the sheet adds the leading padding once.
+    const slots = frames.map(f => ({ width: f.width + extrude * 2 + padding, height: f.height + extrude * 2 + padding }));
+    let positions: { x: number; y: number }[];
+
+    if (options.layout === 'strip') {
+        let x = 0;
+        positions = slots.map(slot => {
+            const pos = { x, y: 0 };
+            x += slot.width;
+            return pos;
+        });
+    } else if (options.layout === 'grid') {
+        const columns = options.columns > 0 ? Math.min(options.columns, frames.length) : Math.ceil(Math.sqrt(frames.length));
+        const cellWidth = Math.max(...slots.map(s => s.width));
+        const cellHeight = Math.max(...slots.map(s => s.height));
+        positions = slots.map((_, i) => ({ x: (i % columns) * cellWidth, y: Math.floor(i / columns) * cellHeight }));
+    } else {
+        const totalArea = slots.reduce((sum, s) => sum + s.width * s.height, 0);
+        const minWidth = Math.max(...slots.map(s => s.width));
+        const maxWidth = slots.reduce((sum, s) => sum + s.width, 0);
+        let best: { positions: { x: number; y: number }[]; area: number; side: number } | null = null;
+        for (let factor = 0.8; factor <= 2; factor += 0.1) {
+            const binWidth = Math.min(maxWidth, Math.max(minWidth, Math.ceil(Math.sqrt(totalArea) * factor)));
+            const packed = packMaxRects(slots, binWidth);
+            if (!packed) continue;
+            const usedWidth = Math.max(...packed.map((p, i) => p.x + slots[i].width));
+            const usedHeight = Math.max(...packed.map((p, i) => p.y + slots[i].height));
+            const area = usedWidth * usedHeight;
+            const side = Math.max(usedWidth, usedHeight);
+            if (!best || area < best.area || (area === best.area && side < best.side)) {
+                best = { positions: packed, area, side };
+            }
+        }
+        positions = best ? best.positions : slots.map((_, i) => ({ x: slots.slice(0, i).reduce((sum, s) => sum + s.width, 0), y: 0 }));
+    }
+
+    const placed = frames.map((frame, i) => ({
+        ...frame,
+        x: padding + positions[i].x + extrude,
+        y: padding + positions[i].y + extrude,
+    }));
+    return {
+        width: padding + Math.max(...positions.map((p, i) => p.x + slots[i].width)),
+        height: padding + Math.max(...positions.map((p, i) => p.y + slots[i].height)),
+        frames: placed,
+    };
+}
+
+export function drawSpriteSheet(sources: CanvasImageSource[], layout: SpriteSheetLayoutResult, extrude: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    ctx.imageSmoothingEnabled = false;
+
+    layout.frames.forEach((frame, i) => {
+        const source = sources[i];
+        if (!source) return;
+        const { x, y, width: w, height: h } = frame;
+        ctx.drawImage(source, 0, 0, w, h, x, y, w, h);
+        if (extrude <= 0) return;
+
+        // Repeat the outermost pixel rows/columns outwards to avoid bleeding when sampling with filtering.
+        ctx.drawImage(source, 0, 0, w, 1, x, y - extrude, w, extrude);
+        ctx.drawImage(source, 0, h - 1, w, 1, x, y + h, w, extrude);
+        ctx.drawImage(source, 0, 0, 1, h, x - extrude, y, extrude, h);
+        ctx.drawImage(source, w - 1, 0, 1, h, x + w, y, extrude, h);
+        ctx.drawImage(source, 0, 0, 1, 1, x - extrude, y - extrude, extrude, extrude);
+        ctx.drawImage(source, w - 1, 0, 1, 1, x + w, y - extrude, extrude, extrude);
+        ctx.drawImage(source, 0, h - 1, 1, 1, x - extrude, y + h, extrude, extrude);
+        ctx.drawImage(source, w - 1, h - 1, 1, 1, x + w, y + h, extrude, extrude);
+    });
+    return canvas;
+}
+
+// Builds a TexturePacker-compatible JSON descriptor ("JSON (Hash)" or "JSON (Array)").
+export function buildAtlasDescriptor(layout: SpriteSheetLayoutResult, options: SpriteSheetOptions, imageName: string) {
+    const entries = layout.frames.map(frame => ({
+        filename: frame.name,
+        frame: { x: frame.x, y: frame.y, w: frame.width, h: frame.height },
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+        sourceSize: { w: frame.width, h: frame.height },
+    }));
+
+    const meta = {
+        app: 'Bulk Image Cropper',
+        version: '1.0',
+        image: imageName,
+        format: 'RGBA8888',
+        size: { w: layout.width, h: layout.height },
+        scale: '1',
+    };
+
+    if (options.atlasFormat === 'array') {
+        return { frames: entries, meta };
+    }
+    return {
+        frames: Object.fromEntries(entries.map(({ filename, ...rest }) => [filename, rest])),
+        meta,
+    };
+}
@@ -0,0 +1,47 @@
+import type { AutoDetectOptions, SpriteTrim } from '../types';
+import { createBackgroundTest, type Bounds } from './detection';
+import { getContext2D, type AnyCanvas } from './image';
+
+// How one export trims its files: the background test (as set up for detection) and the margin kept
+// around the content.
+export interface TrimSettings {
+    background: AutoDetectOptions;
+    padding: number;
+}
+
+// Smallest box holding every non-background pixel; null when there are none.
+export function findContentBounds(data: Uint8ClampedArray, width: number, height: number, options: AutoDetectOptions): Bounds | null {
+    const isBackground = createBackgroundTest(data, options);
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (isBackground((y * width + x) * 4)) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+// Shrinks `canvas` in place to its content plus `settings.padding`, and returns where the kept part
+// sat on the original canvas. A canvas with nothing but background becomes its top-left pixel.
+export function trimCanvas(canvas: AnyCanvas, settings: TrimSettings): SpriteTrim {
+    const { width, height } = canvas;
+    const untrimmed: SpriteTrim = { trimmed: false, spriteSourceSize: { x: 0, y: 0, w: width, h: height }, sourceSize: { w: width, h: height } };
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    if (!ctx) return untrimmed;
+
+    const content = findContentBounds(ctx.getImageData(0, 0, width, height).data, width, height, settings.background) ?? { x: 0, y: 0, width: 1, height: 1 };
+    const padding = Math.max(0, settings.padding);
+    const x = Math.max(0, content.x - padding), y = Math.max(0, content.y - padding);
+    const w = Math.min(width, content.x + content.width + padding) - x, h = Math.min(height, content.y + content.height + padding) - y;
+    if (w === width && h === height) return untrimmed;
+
+    const kept = ctx.getImageData(x, y, w, h);
+    canvas.width = w;
+    canvas.height = h;
+    ctx.putImageData(kept, 0, 0);
+    return { trimmed: true, spriteSourceSize: { x, y, w, h }, sourceSize: { w: width, h: height } };
+}
@@ -0,0 +1,144 @@
+import { runImageTask, type ImageTask, type ImageTaskResult } from './imageTasks';
+
+export interface TaskControl {
+    signal?: AbortSignal;
+    // Fraction (0-1) of the task that is done.
+    onProgress?: (fraction: number) => void;
+}
+
+interface Job {
+    id: number;
+    task: ImageTask;
+    control: TaskControl;
+    resolve: (result: unknown) => void;
+    reject: (error: unknown) => void;
+}
+
+interface Slot {
+    worker: Worker;
+    job: Job | null;
+}
+
+type WorkerMessage =
+    | { id: number; type: 'progress'; fraction: number }
+    | { id: number; type: 'done'; result: unknown }
+    | { id: number; type: 'error'; message: string };
+
+export const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Runs image tasks on a fixed number of workers, queueing the rest. Cancelling a queued task just
+// drops it; cancelling a running one terminates its worker and starts a fresh one in its place.
+export class WorkerPool {
+    private slots: Slot[] = [];
+    private queue: Job[] = [];
+    private nextId = 1;
+
+    constructor(private createWorker: () => Worker, size: number) {
+        for (let i = 0; i < size; i++) this.slots.push(this.spawn());
+    }
+
+    run<T extends ImageTask>(task: T, control: TaskControl = {}): Promise<ImageTaskResult<T>> {
+        return new Promise((resolve, reject) => {
+            if (control.signal?.aborted) return reject(createAbortError());
+            const job: Job = { id: this.nextId++, task, control, resolve: result => resolve(result as ImageTaskResult<T>), reject };
+            control.signal?.addEventListener('abort', () => this.cancel(job), { once: true });
+            this.queue.push(job);
+            this.dispatch();
+        });
+    }
+
+    private spawn(): Slot {
+        const slot: Slot = { worker: this.createWorker(), job: null };
+        slot.worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(slot, event.data);
+        slot.worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            this.finish(slot, job => job.reject(new Error(event.message || "Image worker crashed.")));
+        };
+        return slot;
+    }
+
+    private handleMessage(slot: Slot, message: WorkerMessage) {
+        if (!slot.job || slot.job.id !== message.id) return;
+        if (message.type === 'progress') {
+            slot.job.control.onProgress?.(message.fraction);
+        } else if (message.type === 'done') {
+            this.finish(slot, job => job.resolve(message.result));
+        } else {
+            this.finish(slot, job => job.reject(new Error(message.message)));
+        }
+    }
+
+    private finish(slot: Slot, settle: (job: Job) => void) {
+        const job = slot.job;
+        slot.job = null;
+        if (job) settle(job);
+        this.dispatch();
+    }
+
+    private dispatch() {
+        for (const slot of this.slots) {
+            if (slot.job) continue;
+            const job = this.queue.shift();
+            if (!job) return;
+            slot.job = job;
+            slot.worker.postMessage({ id: job.id, task: job.task });
+        }
+    }
+
+    private cancel(job: Job) {
+        const queued = this.queue.indexOf(job);
+        if (queued >= 0) {
+            this.queue.splice(queued, 1);
+            job.reject(createAbortError());
+            return;
+        }
+        const index = this.slots.findIndex(slot => slot.job === job);
+        if (index < 0) return;
+        this.slots[index].worker.terminate();
+        this.slots[index] = this.spawn();
+        job.reject(createAbortError());
+        this.dispatch();
+    }
+}
+
+// Fallback for browsers without module workers or OffscreenCanvas: same tasks, on the main thread.
+// Cancellation takes effect at the next progress report.
+const runOnMainThread = <T extends ImageTask>(task: T, { signal, onProgress }: TaskControl = {}) => {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+    return runImageTask(task, fraction => {
+        if (signal?.aborted) throw createAbortError();
+        onProgress?.(fraction);
+    });
+};
+
+let pool: WorkerPool | null = null;
+
+const canUseWorkers = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// How many image tasks actually run at once; callers feeding the pool gradually shouldn't queue more.
+// Leaves a core for the UI thread.
+export const getImagePoolSize = () => canUseWorkers() ? Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1)) : 1;
+
+export function runInImagePool<T extends ImageTask>(task: T, control?: TaskControl): Promise<ImageTaskResult<T>> {
+    if (!canUseWorkers()) {
+        return runOnMainThread(task, control);
+    }
+    if (!pool) {
+        pool = new WorkerPool(() => new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' }), getImagePoolSize());
+    }
+    return pool.run(task, control);
+}
+
+// Sums per-task progress into one overall count, so a batch reports partial progress of the tasks
+// that are still running rather than jumping from one finished task to the next.
+export function createProgressTracker(weights: number[], onChange: (processed: number, total: number) => void) {
+    const done = new Float64Array(weights.length);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    onChange(0, total);
+    return (index: number, fraction: number) => {
+        done[index] = weights[index] * Math.min(1, fraction);
+        onChange(done.reduce((sum, value) => sum + value, 0), total);
+    };
+}
@@ -0,0 +1,21 @@
+import { runImageTask, type ImageTask } from '../utils/imageTasks';
+
+// Messages are { id, task } in and { id, type: 'progress' | 'done' | 'error', ... } out; the pool
+// matches them up by id. A worker only ever runs one task at a time.
+self.addEventListener('message', async (event: MessageEvent<{ id: number; task: ImageTask }>) => {
+    const { id, task } = event.data;
+    let lastReport = 0;
+    try {
+        const result = await runImageTask(task, fraction => {
+            // Progress is cosmetic; don't flood the main thread with messages.
+            const now = Date.now();
+            if (now - lastReport < 50 && fraction < 1) return;
+            lastReport = now;
+            self.postMessage({ id, type: 'progress', fraction });
+        });
+        // Bitmaps are handed over rather than copied.
+        self.postMessage({ id, type: 'done', result }, { transfer: result instanceof ImageBitmap ? [result] : [] });
+    } catch (error) {
+        self.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+});